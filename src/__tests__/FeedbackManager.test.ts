@@ -0,0 +1,265 @@
+/**
+ * Tests for FeedbackManager and haptic backends
+ */
+
+import { trigger } from 'react-native-haptic-feedback';
+import { FeedbackManager } from '../core/FeedbackManager';
+import { NativeHapticBackend, RecordingHapticBackend, getHapticPattern } from '../core/HapticBackend';
+import { TouchControlManager } from '../core/TouchControlManager';
+import { VirtualClock } from '../core/Clock';
+import {
+  TouchControlConfig,
+  TouchFeedbackType,
+  GestureType,
+  GesturePhase,
+  GestureState,
+  HapticType,
+  VisualFeedback,
+  VisualFeedbackType
+} from '../types/TouchTypes';
+
+jest.mock('react-native-haptic-feedback', () => ({
+  trigger: jest.fn()
+}));
+
+describe('FeedbackManager', () => {
+  let backend: RecordingHapticBackend;
+  let feedbackManager: FeedbackManager;
+
+  const gesture = (type: GestureType) => ({ type, timestamp: 0 });
+
+  beforeEach(() => {
+    backend = new RecordingHapticBackend();
+    feedbackManager = new FeedbackManager({ hapticBackend: backend, platform: 'ios' });
+  });
+
+  afterEach(() => {
+    feedbackManager.destroy();
+  });
+
+  describe('Haptics', () => {
+    it('should play the haptic mapped to each gesture', () => {
+      feedbackManager.provideFeedback(TouchFeedbackType.HAPTIC, gesture(GestureType.TAP));
+      feedbackManager.provideFeedback(TouchFeedbackType.HAPTIC, gesture(GestureType.LONG_PRESS));
+      feedbackManager.provideFeedback(TouchFeedbackType.HAPTIC, gesture(GestureType.SWIPE_LEFT));
+
+      expect(backend.getTriggered()).toEqual([
+        { type: HapticType.LIGHT, intensity: 1, pattern: 'impactLight' },
+        { type: HapticType.HEAVY, intensity: 1, pattern: 'impactHeavy' },
+        { type: HapticType.SELECTION, intensity: 1, pattern: 'selection' }
+      ]);
+    });
+
+    it('should play notification haptics for success, warning and error', () => {
+      feedbackManager.provideSuccessFeedback();
+      feedbackManager.provideWarningFeedback();
+      feedbackManager.provideErrorFeedback();
+
+      expect(backend.getTriggered().map(feedback => feedback.pattern)).toEqual([
+        'notificationSuccess',
+        'notificationWarning',
+        'notificationError'
+      ]);
+    });
+
+    it('should weaken impacts as the intensity drops', () => {
+      feedbackManager.setFeedbackIntensity(0.4);
+      feedbackManager.provideFeedback(TouchFeedbackType.HAPTIC, gesture(GestureType.LONG_PRESS));
+      feedbackManager.setFeedbackIntensity(0);
+      feedbackManager.provideFeedback(TouchFeedbackType.HAPTIC, gesture(GestureType.LONG_PRESS));
+
+      expect(backend.getTriggered()).toEqual([{ type: HapticType.HEAVY, intensity: 0.4, pattern: 'impactMedium' }]);
+    });
+
+    it('should not play haptics while disabled', () => {
+      feedbackManager.setHapticEnabled(false);
+      feedbackManager.provideFeedback(TouchFeedbackType.HAPTIC, gesture(GestureType.TAP));
+
+      expect(backend.getTriggered()).toHaveLength(0);
+    });
+
+    it('should keep working when the backend throws', () => {
+      jest.spyOn(console, 'error').mockImplementation();
+      feedbackManager.setHapticBackend({
+        trigger: () => {
+          throw new Error('No haptic engine');
+        }
+      });
+
+      expect(() => feedbackManager.provideFeedback(TouchFeedbackType.HAPTIC, gesture(GestureType.TAP))).not.toThrow();
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe('Haptic patterns', () => {
+    it('should map haptic types to platform patterns', () => {
+      expect(getHapticPattern(HapticType.MEDIUM, 1, 'ios')).toBe('impactMedium');
+      expect(getHapticPattern(HapticType.MEDIUM, 1, 'android')).toBe('effectClick');
+      expect(getHapticPattern(HapticType.SELECTION, 1, 'android')).toBe('clockTick');
+    });
+
+    it('should not map haptics on the web', () => {
+      expect(getHapticPattern(HapticType.HEAVY, 1, 'web')).toBeNull();
+    });
+
+    it('should keep fixed patterns at low intensity', () => {
+      expect(getHapticPattern(HapticType.SUCCESS, 0.1, 'ios')).toBe('notificationSuccess');
+      expect(getHapticPattern(HapticType.HEAVY, 0.1, 'ios')).toBe('impactLight');
+    });
+  });
+
+  describe('Visual feedback', () => {
+    let feedback: VisualFeedback[];
+
+    const state = (overrides: Partial<GestureState> = {}): GestureState => ({
+      startTime: 0,
+      startTouches: [{ x: 10, y: 20, timestamp: 0, identifier: 1 }],
+      currentTouches: [{ x: 30, y: 40, timestamp: 100, identifier: 1 }],
+      deltaX: 20,
+      deltaY: 20,
+      velocityX: 0,
+      velocityY: 0,
+      scale: 1,
+      rotation: 0,
+      centroidX: 50,
+      centroidY: 60,
+      pressure: 0,
+      isActive: true,
+      isRecognized: true,
+      ...overrides
+    });
+
+    beforeEach(() => {
+      feedback = [];
+      feedbackManager.setVisualFeedbackListener(visualFeedback => feedback.push(visualFeedback));
+    });
+
+    it('should ripple where a tap started', () => {
+      feedbackManager.provideFeedback(TouchFeedbackType.VISUAL, { type: GestureType.TAP, state: state(), timestamp: 100 });
+
+      expect(feedback).toEqual([
+        { type: VisualFeedbackType.RIPPLE, phase: GesturePhase.ENDED, x: 10, y: 20, timestamp: 100 }
+      ]);
+    });
+
+    it('should trail the finger during a pan and track pinches at the centroid', () => {
+      feedbackManager.provideFeedback(TouchFeedbackType.VISUAL, {
+        type: GestureType.PAN,
+        phase: GesturePhase.CHANGED,
+        state: state(),
+        timestamp: 100
+      });
+      feedbackManager.provideFeedback(TouchFeedbackType.VISUAL, {
+        type: GestureType.PINCH,
+        phase: GesturePhase.BEGAN,
+        state: state({ scale: 1.5 }),
+        timestamp: 200
+      });
+
+      expect(feedback).toEqual([
+        { type: VisualFeedbackType.TRAIL, phase: GesturePhase.CHANGED, x: 30, y: 40, timestamp: 100 },
+        { type: VisualFeedbackType.PINCH, phase: GesturePhase.BEGAN, x: 50, y: 60, timestamp: 200, scale: 1.5 }
+      ]);
+    });
+
+    it('should not report gesture states or log them', () => {
+      jest.spyOn(console, 'log').mockImplementation();
+      feedbackManager.provideFeedback(TouchFeedbackType.VISUAL, state());
+
+      expect(feedback).toHaveLength(0);
+      expect(console.log).not.toHaveBeenCalled();
+      jest.restoreAllMocks();
+    });
+
+    it('should not report visual feedback while disabled', () => {
+      feedbackManager.setVisualEnabled(false);
+      feedbackManager.providePressFeedback(GesturePhase.BEGAN, { x: 0, y: 0, timestamp: 0, identifier: 1 }, 500);
+
+      expect(feedback).toHaveLength(0);
+    });
+
+    it('should keep working when the listener throws', () => {
+      jest.spyOn(console, 'error').mockImplementation();
+      feedbackManager.setVisualFeedbackListener(() => {
+        throw new Error('Overlay unmounted');
+      });
+
+      expect(() => feedbackManager.provideFeedback(TouchFeedbackType.VISUAL, {
+        type: GestureType.TAP,
+        state: state(),
+        timestamp: 0
+      })).not.toThrow();
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe('Native backend', () => {
+    it('should play haptics through react-native-haptic-feedback', () => {
+      new NativeHapticBackend().trigger({ type: HapticType.LIGHT, intensity: 1, pattern: 'impactLight' });
+
+      expect(trigger).toHaveBeenCalledWith('impactLight', {
+        enableVibrateFallback: true,
+        ignoreAndroidSystemSettings: false
+      });
+    });
+  });
+
+  describe('TouchControlManager', () => {
+    const config: TouchControlConfig = {
+      platform: 'android',
+      minTouchTargetSize: 44,
+      maxTouchTargetSize: 88,
+      spacingBetweenTargets: 8,
+      gestureConfig: {
+        minDistance: 10,
+        maxDistance: 1000,
+        minDuration: 100,
+        maxDuration: 2000,
+        velocityThreshold: 0.3,
+        scaleThreshold: 0.1,
+        rotationThreshold: 15
+      },
+      accessibility: {
+        screenReaderEnabled: false,
+        voiceControlEnabled: false,
+        switchControlEnabled: false,
+        highContrastEnabled: false,
+        reducedMotionEnabled: false,
+        largeTextEnabled: false
+      },
+      performance: {
+        maxRecognitionTime: 100,
+        maxMemoryUsage: 50,
+        enableCaching: true,
+        enableOptimization: true
+      }
+    };
+
+    it('should play gesture haptics through the manager backend', () => {
+      const manager = new TouchControlManager(config, { clock: new VirtualClock(), hapticBackend: backend });
+
+      manager.handleTouchStart({ x: 100, y: 100, timestamp: 0, identifier: 1 });
+      manager.handleTouchEnd({ x: 100, y: 100, timestamp: 50, identifier: 1 });
+      manager.destroy();
+
+      expect(backend.getTriggered()).toEqual([{ type: HapticType.LIGHT, intensity: 1, pattern: 'effectTick' }]);
+    });
+
+    it('should show a press ring while a finger is held and a ripple when it taps', () => {
+      const manager = new TouchControlManager(config, { clock: new VirtualClock(), hapticBackend: backend });
+      const feedback: VisualFeedback[] = [];
+      manager.getFeedbackManager().setVisualFeedbackListener(visualFeedback => feedback.push(visualFeedback));
+
+      manager.handleTouchStart({ x: 100, y: 100, timestamp: 0, identifier: 1 });
+      manager.handleTouchEnd({ x: 100, y: 100, timestamp: 50, identifier: 1 });
+      manager.destroy();
+
+      expect(feedback.map(visualFeedback => [visualFeedback.type, visualFeedback.phase])).toEqual([
+        [VisualFeedbackType.PRESS, GesturePhase.BEGAN],
+        [VisualFeedbackType.RIPPLE, GesturePhase.ENDED],
+        [VisualFeedbackType.PRESS, GesturePhase.CANCELLED]
+      ]);
+      expect(feedback[0].duration).toBe(500);
+    });
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Tests for FeedbackScheduler
+ */
+
+import { FeedbackScheduler } from '../core/FeedbackScheduler';
+import { FeedbackManager } from '../core/FeedbackManager';
+import { RecordingHapticBackend } from '../core/HapticBackend';
+import { PerformanceMonitor } from '../core/PerformanceMonitor';
+import { VirtualClock } from '../core/Clock';
+import {
+  FeedbackPriority,
+  GesturePhase,
+  GestureType,
+  HapticType,
+  TouchFeedbackType,
+  VisualFeedback
+} from '../types/TouchTypes';
+
+describe('FeedbackScheduler', () => {
+  let clock: VirtualClock;
+  let scheduler: FeedbackScheduler;
+  let delivered: string[];
+
+  const schedule = (
+    key: string,
+    priority: FeedbackPriority = FeedbackPriority.NORMAL,
+    channel: TouchFeedbackType = TouchFeedbackType.HAPTIC
+  ) => scheduler.schedule(channel, key, priority, () => delivered.push(key));
+
+  beforeEach(() => {
+    clock = new VirtualClock();
+    delivered = [];
+    scheduler = new FeedbackScheduler({
+      clock,
+      limits: {
+        [TouchFeedbackType.HAPTIC]: { rate: 10, burst: 2, maxDelay: 250 },
+        [TouchFeedbackType.VISUAL]: { rate: 100, burst: 10 }
+      },
+      queueSize: 3
+    });
+  });
+
+  afterEach(() => {
+    scheduler.destroy();
+  });
+
+  describe('Rate limits', () => {
+    it('should deliver a burst at once and the rest at the channel rate', () => {
+      schedule('tap');
+      schedule('long_press');
+      schedule('swipe_left');
+
+      expect(delivered).toEqual(['tap', 'long_press']);
+
+      clock.advanceBy(99);
+      expect(delivered).toHaveLength(2);
+
+      clock.advanceBy(1);
+      expect(delivered).toEqual(['tap', 'long_press', 'swipe_left']);
+    });
+
+    it('should limit each channel separately', () => {
+      schedule('tap');
+      schedule('long_press');
+      schedule('pan', FeedbackPriority.NORMAL, TouchFeedbackType.VISUAL);
+
+      expect(delivered).toEqual(['tap', 'long_press', 'pan']);
+    });
+
+    it('should drop haptics that waited too long', () => {
+      schedule('tap');
+      schedule('long_press');
+      schedule('a');
+      schedule('b');
+      schedule('c');
+      clock.advanceBy(1000);
+
+      expect(delivered).toEqual(['tap', 'long_press', 'a', 'b']);
+      expect(scheduler.getStats()).toMatchObject({ delivered: 4, dropped: 1, pending: 0 });
+    });
+  });
+
+  describe('Coalescing', () => {
+    it('should replace queued feedback with the latest of the same key', () => {
+      schedule('tap');
+      schedule('long_press');
+      scheduler.schedule(TouchFeedbackType.HAPTIC, 'pan', FeedbackPriority.LOW, () => delivered.push('pan 1'));
+      scheduler.schedule(TouchFeedbackType.HAPTIC, 'pan', FeedbackPriority.LOW, () => delivered.push('pan 2'));
+      clock.advanceBy(200);
+
+      expect(delivered).toEqual(['tap', 'long_press', 'pan 2']);
+      expect(scheduler.getStats().coalesced).toBe(1);
+    });
+  });
+
+  describe('Priority', () => {
+    it('should deliver queued errors before selections', () => {
+      schedule('tap');
+      schedule('long_press');
+      schedule('selection', FeedbackPriority.LOW);
+      schedule('error', FeedbackPriority.CRITICAL);
+      clock.advanceBy(200);
+
+      expect(delivered).toEqual(['tap', 'long_press', 'error', 'selection']);
+    });
+
+    it('should drop the lowest priority when a channel queue is full', () => {
+      schedule('tap');
+      schedule('long_press');
+      schedule('selection', FeedbackPriority.LOW);
+      schedule('a');
+      schedule('b');
+
+      expect(schedule('error', FeedbackPriority.CRITICAL)).toBe(true);
+      expect(schedule('another selection', FeedbackPriority.LOW)).toBe(false);
+
+      clock.advanceBy(200);
+      expect(delivered).toEqual(['tap', 'long_press', 'error', 'a']);
+    });
+  });
+
+  describe('Budget', () => {
+    it('should share a budget across channels', () => {
+      scheduler = new FeedbackScheduler({ clock, budget: 3 });
+      schedule('tap');
+      schedule('tap', FeedbackPriority.NORMAL, TouchFeedbackType.VISUAL);
+      schedule('tap', FeedbackPriority.NORMAL, TouchFeedbackType.AUDIO);
+      schedule('pan', FeedbackPriority.NORMAL, TouchFeedbackType.VISUAL);
+
+      expect(delivered).toEqual(['tap', 'tap', 'tap']);
+
+      clock.advanceBy(1000);
+      expect(delivered).toEqual(['tap', 'tap', 'tap', 'pan']);
+    });
+
+    it('should tighten the budget as battery impact rises', () => {
+      scheduler = new FeedbackScheduler({ clock, budget: 80 });
+
+      scheduler.setBatteryImpact(0.05);
+      expect(scheduler.getBudget()).toBe(80);
+      scheduler.setBatteryImpact(0.075);
+      expect(scheduler.getBudget()).toBe(50);
+      scheduler.setBatteryImpact(0.5);
+      expect(scheduler.getBudget()).toBe(20);
+    });
+
+    it('should hear about battery impact from the performance monitor', () => {
+      const monitor = new PerformanceMonitor(clock);
+      scheduler = new FeedbackScheduler({ clock, budget: 80 });
+      monitor.setBatteryImpactListener(batteryImpact => scheduler.setBatteryImpact(batteryImpact));
+
+      for (let index = 0; index < 100; index++) {
+        monitor.recordGesture(GestureType.TAP, true);
+      }
+      clock.advanceBy(1000);
+      monitor.destroy();
+
+      expect(scheduler.getBudget()).toBe(20);
+    });
+
+    it('should tighten the budget at the gesture rate of an active player', () => {
+      const monitor = new PerformanceMonitor(clock);
+      scheduler = new FeedbackScheduler({ clock, budget: 80 });
+      monitor.setBatteryImpactListener(batteryImpact => scheduler.setBatteryImpact(batteryImpact));
+      const tapFor = (seconds: number, tapsPerSecond: number) => {
+        for (let tap = 0; tap < seconds * tapsPerSecond; tap++) {
+          monitor.recordGesture(GestureType.TAP, true);
+          clock.advanceBy(1000 / tapsPerSecond);
+        }
+      };
+
+      tapFor(3, 2);
+      expect(scheduler.getBudget()).toBe(80);
+
+      tapFor(3, 8);
+      expect(scheduler.getBudget()).toBeLessThan(50);
+      monitor.destroy();
+    });
+
+    it('should recover the budget once gesture activity drops', () => {
+      const monitor = new PerformanceMonitor(clock);
+      scheduler = new FeedbackScheduler({ clock, budget: 80 });
+      monitor.setBatteryImpactListener(batteryImpact => scheduler.setBatteryImpact(batteryImpact));
+
+      for (let index = 0; index < 100; index++) {
+        monitor.recordGesture(GestureType.TAP, true);
+      }
+      clock.advanceBy(1000);
+      expect(scheduler.getBudget()).toBe(20);
+
+      clock.advanceBy(1000);
+      monitor.destroy();
+      expect(scheduler.getBudget()).toBe(80);
+    });
+  });
+
+  describe('FeedbackManager', () => {
+    let feedbackManager: FeedbackManager;
+    let backend: RecordingHapticBackend;
+
+    beforeEach(() => {
+      backend = new RecordingHapticBackend();
+      feedbackManager = new FeedbackManager({ hapticBackend: backend, scheduler, platform: 'ios' });
+    });
+
+    afterEach(() => {
+      feedbackManager.destroy();
+    });
+
+    it('should coalesce the visual updates of a fast pan', () => {
+      const feedback: VisualFeedback[] = [];
+      feedbackManager.setVisualFeedbackListener(visualFeedback => feedback.push(visualFeedback));
+
+      for (let index = 0; index < 30; index++) {
+        const touch = { x: index, y: 0, timestamp: index, identifier: 1 };
+        feedbackManager.provideFeedback(TouchFeedbackType.VISUAL, {
+          type: GestureType.PAN,
+          phase: GesturePhase.CHANGED,
+          timestamp: index,
+          state: {
+            startTime: 0,
+            startTouches: [touch],
+            currentTouches: [touch],
+            deltaX: index,
+            deltaY: 0,
+            velocityX: 0,
+            velocityY: 0,
+            scale: 1,
+            rotation: 0,
+            centroidX: index,
+            centroidY: 0,
+            pressure: 0,
+            isActive: true,
+            isRecognized: true
+          }
+        });
+      }
+      clock.advanceBy(10);
+
+      expect(feedback).toHaveLength(11);
+      expect(feedback[10].x).toBe(29);
+    });
+
+    it('should not schedule gesture states that draw nothing', () => {
+      feedbackManager.setVisualFeedbackListener(() => undefined);
+      const touch = { x: 0, y: 0, timestamp: 0, identifier: 1 };
+      feedbackManager.provideFeedback(TouchFeedbackType.VISUAL, {
+        startTime: 0,
+        startTouches: [touch],
+        currentTouches: [touch],
+        deltaX: 0,
+        deltaY: 0,
+        velocityX: 0,
+        velocityY: 0,
+        scale: 1,
+        rotation: 0,
+        centroidX: 0,
+        centroidY: 0,
+        pressure: 0,
+        isActive: true,
+        isRecognized: false
+      });
+
+      expect(scheduler.getStats()).toMatchObject({ delivered: 0, pending: 0 });
+    });
+
+    it('should put error feedback ahead of queued gesture haptics', () => {
+      for (let index = 0; index < 2; index++) {
+        feedbackManager.provideFeedback(TouchFeedbackType.HAPTIC, { type: GestureType.TAP, timestamp: 0 });
+      }
+      feedbackManager.provideFeedback(TouchFeedbackType.HAPTIC, { type: GestureType.LONG_PRESS, timestamp: 0 });
+      feedbackManager.provideErrorFeedback();
+      clock.advanceBy(200);
+
+      expect(backend.getTriggered().map(haptic => haptic.type)).toEqual([
+        HapticType.LIGHT,
+        HapticType.LIGHT,
+        HapticType.ERROR,
+        HapticType.HEAVY
+      ]);
+    });
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Tests for GameCommandMapper
+ */
+
+import { GameCommandMapper, GAME_COMMAND_NAMESPACE } from '../core/GameCommandMapper';
+import { DEFAULT_BINDING_NAMESPACE } from '../core/GestureBindingStore';
+import { TouchControlManager } from '../core/TouchControlManager';
+import {
+  GameCommand,
+  GameCommandAdapter,
+  GestureEvent,
+  GestureName,
+  GesturePhase,
+  GestureType,
+  TouchControlConfig
+} from '../types/TouchTypes';
+
+describe('GameCommandMapper', () => {
+  let adapter: jest.Mocked<GameCommandAdapter>;
+  let mapper: GameCommandMapper;
+
+  const createEvent = (type: GestureName, phase?: GesturePhase, scale: number = 1): GestureEvent => ({
+    type,
+    phase,
+    timestamp: Date.now(),
+    state: {
+      startTime: Date.now(),
+      startTouches: [{ x: 120, y: 340, timestamp: Date.now(), identifier: 1 }],
+      currentTouches: [],
+      deltaX: 0,
+      deltaY: 0,
+      velocityX: 0,
+      velocityY: 0,
+      scale,
+      rotation: 0,
+      centroidX: 120,
+      centroidY: 340,
+      pressure: 0.5,
+      isActive: false,
+      isRecognized: true
+    }
+  });
+
+  beforeEach(() => {
+    adapter = {
+      moveOrAttack: jest.fn(),
+      inspect: jest.fn(),
+      zoom: jest.fn(),
+      openChat: jest.fn(),
+      toggleAchievements: jest.fn()
+    };
+    mapper = new GameCommandMapper(adapter);
+  });
+
+  describe('Default Bindings', () => {
+    it('should move or attack at the tapped position', () => {
+      expect(mapper.handleGesture(createEvent(GestureType.TAP))).toBe(true);
+      expect(adapter.moveOrAttack).toHaveBeenCalledWith(120, 340);
+    });
+
+    it('should inspect on long press and open chat on swipe up', () => {
+      mapper.handleGesture(createEvent(GestureType.LONG_PRESS));
+      mapper.handleGesture(createEvent(GestureType.SWIPE_UP));
+
+      expect(adapter.inspect).toHaveBeenCalledWith(120, 340);
+      expect(adapter.openChat).toHaveBeenCalledTimes(1);
+    });
+
+    it('should zoom through every phase of a pinch', () => {
+      mapper.handleGesture(createEvent(GestureType.PINCH, GesturePhase.BEGAN, 1.1));
+      mapper.handleGesture(createEvent(GestureType.PINCH, GesturePhase.CHANGED, 1.4));
+      mapper.handleGesture(createEvent(GestureType.PINCH, GesturePhase.ENDED, 1.5));
+
+      expect(adapter.zoom.mock.calls).toEqual([
+        [1.1, GesturePhase.BEGAN],
+        [1.4, GesturePhase.CHANGED],
+        [1.5, GesturePhase.ENDED]
+      ]);
+    });
+
+    it('should ignore unbound gestures', () => {
+      expect(mapper.handleGesture(createEvent(GestureType.ROTATE, GesturePhase.CHANGED))).toBe(false);
+    });
+  });
+
+  describe('Rebinding', () => {
+    it('should replace the command of a rebound gesture', () => {
+      mapper.bind(GestureType.TAP, GameCommand.INSPECT);
+      mapper.handleGesture(createEvent(GestureType.TAP));
+
+      expect(adapter.inspect).toHaveBeenCalledTimes(1);
+      expect(adapter.moveOrAttack).not.toHaveBeenCalled();
+    });
+
+    it('should run discrete commands only when a continuous gesture ends', () => {
+      mapper.bind(GestureType.PAN, GameCommand.TOGGLE_ACHIEVEMENTS);
+
+      mapper.handleGesture(createEvent(GestureType.PAN, GesturePhase.BEGAN));
+      mapper.handleGesture(createEvent(GestureType.PAN, GesturePhase.CHANGED));
+      mapper.handleGesture(createEvent(GestureType.PAN, GesturePhase.ENDED));
+
+      expect(adapter.toggleAchievements).toHaveBeenCalledTimes(1);
+    });
+
+    it('should run commands rebound through the binding store', () => {
+      mapper.getBindingStore().bind(GameCommand.OPEN_CHAT, GestureType.TAP, 'chat-button');
+
+      mapper.handleGesture({
+        ...createEvent(GestureType.TAP),
+        target: { id: 'chat-button', x: 0, y: 0, width: 44, height: 44, minSize: 44 }
+      });
+      mapper.handleGesture(createEvent(GestureType.TAP));
+
+      expect(adapter.openChat).toHaveBeenCalledTimes(1);
+      expect(adapter.moveOrAttack).toHaveBeenCalledTimes(1);
+    });
+
+    it('should unbind gestures and reset to the defaults', () => {
+      mapper.unbind(GestureType.SWIPE_UP);
+      expect(mapper.getCommand(GestureType.SWIPE_UP)).toBeNull();
+
+      mapper.resetBindings();
+      expect(mapper.getCommand(GestureType.SWIPE_UP)).toBe(GameCommand.OPEN_CHAT);
+    });
+  });
+
+  describe('Manager Integration', () => {
+    let manager: TouchControlManager;
+
+    const config: TouchControlConfig = {
+      platform: 'web',
+      minTouchTargetSize: 44,
+      maxTouchTargetSize: 88,
+      spacingBetweenTargets: 8,
+      gestureConfig: {
+        minDistance: 10,
+        maxDistance: 1000,
+        minDuration: 100,
+        maxDuration: 2000,
+        velocityThreshold: 0.3,
+        scaleThreshold: 0.1,
+        rotationThreshold: 15
+      },
+      accessibility: {
+        screenReaderEnabled: false,
+        voiceControlEnabled: false,
+        switchControlEnabled: false,
+        highContrastEnabled: false,
+        reducedMotionEnabled: false,
+        largeTextEnabled: false
+      },
+      performance: {
+        maxRecognitionTime: 100,
+        maxMemoryUsage: 50,
+        enableCaching: true,
+        enableOptimization: true
+      }
+    };
+
+    const tapAt = (x: number, y: number) => {
+      const now = Date.now();
+      manager.handleTouchStart({ x, y, timestamp: now, identifier: 1, pressure: 0.5 });
+      manager.handleTouchEnd({ x, y, timestamp: now + 50, identifier: 1, pressure: 0.5 });
+    };
+
+    beforeEach(() => {
+      manager = new TouchControlManager(config);
+    });
+
+    afterEach(() => {
+      mapper.detach();
+      manager.destroy();
+    });
+
+    it('should run commands for gestures recognized by an attached manager', () => {
+      mapper.attach(manager);
+      tapAt(200, 150);
+
+      expect(adapter.moveOrAttack).toHaveBeenCalledWith(200, 150);
+    });
+
+    it('should listen for gestures bound after attaching', () => {
+      mapper.attach(manager);
+      mapper.bind(GestureType.TAP, GameCommand.OPEN_CHAT);
+
+      tapAt(200, 150);
+
+      expect(adapter.openChat).toHaveBeenCalledTimes(1);
+      expect(adapter.moveOrAttack).not.toHaveBeenCalled();
+    });
+
+    it('should keep command bindings in the manager binding store', () => {
+      mapper.attach(manager);
+      const bindingStore = manager.getBindingStore();
+      bindingStore.bind(GameCommand.INSPECT, GestureType.DOUBLE_TAP);
+
+      expect(mapper.getBindingStore()).toBe(bindingStore);
+      expect(bindingStore.getActions(GestureType.TAP)).toEqual(['activate', GameCommand.MOVE_OR_ATTACK]);
+      expect(mapper.getCommand(GestureType.DOUBLE_TAP)).toBe(GameCommand.INSPECT);
+    });
+
+    it('should not report conflicts with the manager default bindings', () => {
+      mapper.attach(manager);
+      const bindingStore = manager.getBindingStore();
+
+      expect(bindingStore.getConflicts()).toEqual([]);
+      expect(bindingStore.getAction(GestureType.TAP, undefined, DEFAULT_BINDING_NAMESPACE)).toBe('activate');
+      expect(bindingStore.getAction(GestureType.TAP, undefined, GAME_COMMAND_NAMESPACE)).toBe(GameCommand.MOVE_OR_ATTACK);
+    });
+
+    it('should rebind and reset commands without touching other actions', () => {
+      mapper.attach(manager);
+      mapper.bind(GestureType.SWIPE_UP, GameCommand.TOGGLE_ACHIEVEMENTS);
+      mapper.unbind(GestureType.LONG_PRESS);
+      mapper.resetBindings();
+
+      const bindingStore = manager.getBindingStore();
+      expect(bindingStore.getActions(GestureType.SWIPE_UP)).toEqual(['swipe up', GameCommand.OPEN_CHAT]);
+      expect(bindingStore.getActions(GestureType.LONG_PRESS)).toEqual(['long activate', GameCommand.INSPECT]);
+    });
+
+    it('should count a failing command as a failed gesture', () => {
+      jest.spyOn(console, 'error').mockImplementation();
+      adapter.moveOrAttack.mockImplementation(() => {
+        throw new Error('no path');
+      });
+      mapper.attach(manager);
+      tapAt(200, 150);
+
+      expect(manager.getPerformanceMetrics().successRate).toBe(0);
+      jest.restoreAllMocks();
+    });
+
+    it('should stop running commands once detached', () => {
+      mapper.attach(manager);
+      mapper.detach();
+      tapAt(200, 150);
+
+      expect(adapter.moveOrAttack).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Tests for GestureBenchmark
+ */
+
+import { GestureBenchmark, NO_GESTURE } from '../testing/GestureBenchmark';
+import { GestureSimulator } from '../testing/GestureSimulator';
+import { PerformanceMonitor } from '../core/PerformanceMonitor';
+import { VirtualClock } from '../core/Clock';
+import { TouchControlConfig, GestureType, LabelledTouchRecording, ScreenEdge } from '../types/TouchTypes';
+
+describe('GestureBenchmark', () => {
+  const config: TouchControlConfig = {
+    platform: 'android',
+    minTouchTargetSize: 44,
+    maxTouchTargetSize: 88,
+    spacingBetweenTargets: 8,
+    gestureConfig: {
+      minDistance: 10,
+      maxDistance: 1000,
+      minDuration: 100,
+      maxDuration: 2000,
+      velocityThreshold: 0.3,
+      scaleThreshold: 0.1,
+      rotationThreshold: 15,
+      doubleTapInterval: 300,
+      longPressDuration: 500,
+      edgeInset: 20
+    },
+    accessibility: {
+      screenReaderEnabled: false,
+      voiceControlEnabled: false,
+      switchControlEnabled: false,
+      highContrastEnabled: false,
+      reducedMotionEnabled: false,
+      largeTextEnabled: false
+    },
+    performance: {
+      maxRecognitionTime: 100,
+      maxMemoryUsage: 50,
+      enableCaching: true,
+      enableOptimization: true
+    }
+  };
+
+  const labelled = (label: string, simulate: (simulator: GestureSimulator) => GestureSimulator) => ({
+    name: label,
+    label,
+    recording: simulate(new GestureSimulator({ jitter: 1, seed: 5 })).toRecording(config)
+  });
+
+  const corpus: LabelledTouchRecording[] = [
+    labelled(GestureType.TAP, simulator => simulator.tap(100, 100)),
+    labelled(GestureType.DOUBLE_TAP, simulator => simulator.doubleTap(100, 100)),
+    labelled(GestureType.LONG_PRESS, simulator => simulator.hold(100, 100, 700)),
+    labelled(GestureType.SWIPE_RIGHT, simulator =>
+      simulator.swipe({ from: { x: 100, y: 400 }, to: { x: 300, y: 400 } })
+    ),
+    labelled(GestureType.PINCH, simulator => simulator.pinch({ centerX: 200, centerY: 400, endDistance: 200 })),
+    labelled(GestureType.EDGE_SWIPE, simulator => simulator.edgeSwipe(ScreenEdge.LEFT))
+  ];
+
+  // A swipe too slow to be recognized as one
+  const slowSwipe = labelled(GestureType.SWIPE_RIGHT, simulator =>
+    simulator.swipe({ from: { x: 100, y: 400 }, to: { x: 130, y: 400 }, duration: 600 })
+  );
+
+  it('should recognize a well-formed corpus', () => {
+    const report = new GestureBenchmark({ thresholds: { minAccuracy: 1, minPrecision: 1, minRecall: 1 } }).run(corpus);
+
+    expect(report.passed).toBe(true);
+    expect(report.accuracy).toBe(1);
+    expect(report.labels).toEqual(corpus.map(entry => entry.label));
+    report.confusionMatrix.forEach((row, index) => {
+      expect(row).toEqual(report.labels.map((_, column) => (column === index ? 1 : 0)));
+    });
+  });
+
+  it('should build a confusion matrix with precision and recall per gesture', () => {
+    const report = new GestureBenchmark().run([...corpus, slowSwipe]);
+
+    const swipeRow = report.confusionMatrix[report.labels.indexOf(GestureType.SWIPE_RIGHT)];
+    expect(swipeRow[report.labels.indexOf(GestureType.PAN)]).toBe(1);
+    expect(swipeRow[report.labels.indexOf(GestureType.SWIPE_RIGHT)]).toBe(1);
+    expect(report.gestures[GestureType.SWIPE_RIGHT]).toMatchObject({
+      support: 2,
+      truePositives: 1,
+      falseNegatives: 1,
+      precision: 1,
+      recall: 0.5
+    });
+    expect(report.gestures[GestureType.PAN]).toMatchObject({ support: 0, precision: 0, recall: null });
+    expect(report.accuracy).toBeCloseTo(6 / 7);
+  });
+
+  it('should fail the thresholds it does not meet', () => {
+    const report = new GestureBenchmark({ thresholds: { minAccuracy: 0.9, minRecall: 0.8 } }).run([
+      ...corpus,
+      slowSwipe
+    ]);
+
+    expect(report.passed).toBe(false);
+    expect(report.failures).toEqual(['accuracy 0.86 is below 0.9', 'swipe_right recall 0.50 is below 0.8']);
+    expect(GestureBenchmark.formatReport(report)).toContain('FAILED: swipe_right recall 0.50 is below 0.8');
+  });
+
+  it('should evaluate a tuned gesture config', () => {
+    const report = new GestureBenchmark({ gestureConfig: { velocityThreshold: 0.02 } }).run([slowSwipe]);
+
+    expect(report.results[0].predicted).toBe(GestureType.SWIPE_RIGHT);
+  });
+
+  it('should measure how long recognition waits after the fingers go down or lift', () => {
+    const report = new GestureBenchmark().run(corpus);
+
+    // A single tap waits for a possible second tap
+    expect(report.gestures[GestureType.TAP].averageLatency).toBe(300);
+    expect(report.gestures[GestureType.LONG_PRESS].averageLatency).toBe(500);
+    expect(report.gestures[GestureType.SWIPE_RIGHT].averageLatency).toBe(0);
+  });
+
+  it('should predict no gesture for recordings that are not recognized', () => {
+    const empty = { label: NO_GESTURE, recording: new GestureSimulator().toRecording(config) };
+    const report = new GestureBenchmark().run([empty]);
+
+    expect(report.results[0]).toMatchObject({ predicted: NO_GESTURE, correct: true, latency: null });
+  });
+
+  it('should report the results to a performance monitor', () => {
+    const monitor = new PerformanceMonitor(new VirtualClock());
+    new GestureBenchmark({ performanceMonitor: monitor }).run([corpus[0], slowSwipe]);
+
+    expect(monitor.getMetrics().errorRate).toBe(0.5);
+    expect(monitor.getGestureMetrics(GestureType.SWIPE_RIGHT)!.errorCount).toBe(1);
+    monitor.destroy();
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Tests for GestureBindingStore
+ */
+
+import { GestureBindingStore } from '../core/GestureBindingStore';
+import { GestureBinding, GestureType, StorageAdapter } from '../types/TouchTypes';
+
+describe('GestureBindingStore', () => {
+  let store: GestureBindingStore;
+  let storage: StorageAdapter & { items: Map<string, string> };
+
+  const defaults: GestureBinding[] = [
+    { action: 'attack', gesture: GestureType.TAP },
+    { action: 'inspect', gesture: GestureType.LONG_PRESS },
+    { action: 'chat', gesture: GestureType.SWIPE_UP }
+  ];
+
+  beforeEach(() => {
+    const items = new Map<string, string>();
+    storage = {
+      items,
+      getItem: jest.fn(async (key: string) => items.get(key) ?? null),
+      setItem: jest.fn(async (key: string, value: string) => {
+        items.set(key, value);
+      }),
+      removeItem: jest.fn(async (key: string) => {
+        items.delete(key);
+      })
+    };
+
+    store = new GestureBindingStore(defaults, { storage });
+  });
+
+  describe('Lookup', () => {
+    it('should find the action bound to a gesture', () => {
+      expect(store.getAction(GestureType.TAP)).toBe('attack');
+      expect(store.getAction(GestureType.PINCH)).toBeNull();
+      expect(store.getGesture('chat')).toBe(GestureType.SWIPE_UP);
+    });
+
+    it('should prefer target bindings over bindings that apply anywhere', () => {
+      store.bind('loot', GestureType.TAP, 'chest');
+
+      expect(store.getAction(GestureType.TAP, 'chest')).toBe('loot');
+      expect(store.getAction(GestureType.TAP, 'door')).toBe('attack');
+      expect(store.getAction(GestureType.TAP)).toBe('attack');
+    });
+  });
+
+  describe('Rebinding', () => {
+    it('should move an action to its new gesture', () => {
+      expect(store.bind('chat', GestureType.DOUBLE_TAP)).toBeNull();
+
+      expect(store.getAction(GestureType.DOUBLE_TAP)).toBe('chat');
+      expect(store.getAction(GestureType.SWIPE_UP)).toBeNull();
+    });
+
+    it('should report actions bound to the same gesture on the same target', () => {
+      const conflict = store.bind('chat', GestureType.TAP);
+
+      expect(conflict).toEqual({ gesture: GestureType.TAP, actions: ['attack', 'chat'] });
+      expect(store.getConflicts()).toEqual([conflict]);
+    });
+
+    it('should not report the same gesture on different targets as a conflict', () => {
+      expect(store.bind('loot', GestureType.TAP, 'chest')).toBeNull();
+      expect(store.getConflicts()).toEqual([]);
+    });
+
+    it('should only report conflicts within a namespace', () => {
+      store.addDefaults([{ action: 'jump', gesture: GestureType.TAP }], 'game');
+
+      expect(store.getConflicts()).toEqual([]);
+      expect(store.getActions(GestureType.TAP, undefined, 'game')).toEqual(['jump']);
+      expect(store.bind('dash', GestureType.TAP)).toEqual({ gesture: GestureType.TAP, actions: ['attack', 'dash'] });
+    });
+
+    it('should reset to the defaults', () => {
+      store.bind('chat', GestureType.TAP);
+      store.unbind('inspect');
+      store.resetToDefaults();
+
+      expect(store.getBindings()).toEqual(defaults);
+    });
+
+    it('should reset only the given actions', () => {
+      store.bind('chat', GestureType.TAP);
+      store.unbind('inspect');
+      store.resetToDefaults(['inspect']);
+
+      expect(store.getGesture('inspect')).toBe(GestureType.LONG_PRESS);
+      expect(store.getGesture('chat')).toBe(GestureType.TAP);
+    });
+
+    it('should notify the change listener', () => {
+      const listener = jest.fn();
+      store.setChangeListener(listener);
+
+      store.unbindGesture(GestureType.TAP);
+
+      expect(listener).toHaveBeenCalledWith([defaults[1], defaults[2]]);
+    });
+  });
+
+  describe('Persistence', () => {
+    it('should save and load bindings, including unbound actions', async () => {
+      store.bind('chat', GestureType.DOUBLE_TAP);
+      store.unbind('inspect');
+      await store.save();
+
+      const restored = new GestureBindingStore(defaults, { storage });
+      expect(await restored.load()).toBe(true);
+
+      expect(restored.getAction(GestureType.DOUBLE_TAP)).toBe('chat');
+      expect(restored.getGesture('inspect')).toBeNull();
+    });
+
+    it('should keep defaults for actions added after saving', async () => {
+      await store.save();
+
+      const restored = new GestureBindingStore(
+        [...defaults, { action: 'emote', gesture: GestureType.ROTATE }],
+        { storage }
+      );
+      await restored.load();
+
+      expect(restored.getAction(GestureType.ROTATE)).toBe('emote');
+    });
+
+    it('should add defaults without overriding loaded bindings', async () => {
+      store.addDefaults([{ action: 'emote', gesture: GestureType.ROTATE }]);
+      store.unbind('emote');
+      await store.save();
+
+      const restored = new GestureBindingStore(defaults, { storage });
+      await restored.load();
+      restored.addDefaults([
+        { action: 'emote', gesture: GestureType.ROTATE },
+        { action: 'zoom', gesture: GestureType.PINCH }
+      ]);
+
+      expect(restored.getGesture('emote')).toBeNull();
+      expect(restored.getGesture('zoom')).toBe(GestureType.PINCH);
+      restored.resetToDefaults();
+      expect(restored.getGesture('emote')).toBe(GestureType.ROTATE);
+    });
+
+    it('should ignore saved bindings with an unsupported version', async () => {
+      storage.items.set('touch-controls/gesture-bindings', JSON.stringify({ version: 99 }));
+
+      expect(await store.load()).toBe(false);
+      expect(store.getBindings()).toEqual(defaults);
+    });
+
+    it('should keep the current bindings when storage fails', async () => {
+      storage.getItem = jest.fn().mockRejectedValue(new Error('Storage unavailable'));
+
+      await expect(store.load()).resolves.toBe(false);
+      expect(store.getBindings()).toEqual(defaults);
+    });
+
+    it('should clear saved bindings', async () => {
+      store.bind('chat', GestureType.TAP);
+      await store.save();
+      await store.clearSaved();
+
+      expect(storage.items.size).toBe(0);
+      expect(store.getBindings()).toEqual(defaults);
+    });
+  });
+});
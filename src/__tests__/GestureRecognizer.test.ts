@@ -3,7 +3,15 @@
  */
 
 import { GestureRecognizer } from '../core/GestureRecognizer';
-import { GestureConfig, TouchPoint, GestureType } from '../types/TouchTypes';
+import { VirtualClock } from '../core/Clock';
+import {
+  GestureConfig,
+  TouchPoint,
+  GestureType,
+  GestureEvent,
+  GesturePhase,
+  ScreenEdge
+} from '../types/TouchTypes';
 
 describe('GestureRecognizer', () => {
   let gestureRecognizer: GestureRecognizer;
@@ -162,6 +170,482 @@ describe('GestureRecognizer', () => {
     });
   });
 
+  describe('Double Tap', () => {
+    const tapAt = (x: number, y: number, timestamp: number): GestureEvent | null => {
+      gestureRecognizer.onTouchStart({ x, y, timestamp, identifier: 1, pressure: 0.5 });
+      return gestureRecognizer.onTouchEnd({ x, y, timestamp: timestamp + 50, identifier: 1, pressure: 0.5 });
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      gestureRecognizer.updateConfig({ ...mockConfig, doubleTapInterval: 300, doubleTapSlop: 30 });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should recognize double tap and suppress the single taps', () => {
+      const listener = jest.fn();
+      gestureRecognizer.setGestureListener(listener);
+      const now = Date.now();
+
+      expect(tapAt(100, 100, now)).toBeNull();
+      const gestureEvent = tapAt(105, 102, now + 200);
+
+      expect(gestureEvent?.type).toBe(GestureType.DOUBLE_TAP);
+      jest.advanceTimersByTime(500);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should release a held tap once the interval has passed', () => {
+      const listener = jest.fn();
+      gestureRecognizer.setGestureListener(listener);
+
+      expect(tapAt(100, 100, Date.now())).toBeNull();
+      jest.advanceTimersByTime(299);
+      expect(listener).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0].type).toBe(GestureType.TAP);
+    });
+
+    it('should not pair taps outside the slop radius', () => {
+      const listener = jest.fn();
+      gestureRecognizer.setGestureListener(listener);
+      const now = Date.now();
+
+      tapAt(100, 100, now);
+      expect(tapAt(200, 200, now + 100)).toBeNull();
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0].type).toBe(GestureType.TAP);
+    });
+
+    it('should pair a second tap that goes down in time but is released slowly', () => {
+      const listener = jest.fn();
+      gestureRecognizer.setGestureListener(listener);
+      const now = Date.now();
+
+      expect(tapAt(100, 100, now)).toBeNull();
+      gestureRecognizer.onTouchStart({ x: 102, y: 101, timestamp: now + 250, identifier: 1, pressure: 0.5 });
+      jest.advanceTimersByTime(300);
+      const gestureEvent = gestureRecognizer.onTouchEnd({ x: 102, y: 101, timestamp: now + 450, identifier: 1, pressure: 0.5 });
+
+      expect(gestureEvent?.type).toBe(GestureType.DOUBLE_TAP);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should release the held tap before a second touch that becomes another gesture', () => {
+      const listener = jest.fn();
+      gestureRecognizer.setGestureListener(listener);
+      gestureRecognizer.updateConfig({ ...mockConfig, doubleTapInterval: 300, doubleTapSlop: 30, longPressDuration: 500 });
+      const now = Date.now();
+
+      tapAt(100, 100, now);
+      gestureRecognizer.onTouchStart({ x: 100, y: 100, timestamp: now + 200, identifier: 1, pressure: 0.5 });
+      jest.advanceTimersByTime(500);
+
+      expect(listener.mock.calls.map((call: GestureEvent[]) => call[0].type)).toEqual([GestureType.TAP, GestureType.LONG_PRESS]);
+    });
+
+    it('should not pair taps slower than the interval', () => {
+      const listener = jest.fn();
+      gestureRecognizer.setGestureListener(listener);
+      const now = Date.now();
+
+      tapAt(100, 100, now);
+      expect(tapAt(100, 100, now + 600)).toBeNull();
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Long Press', () => {
+    const touchAt = (x: number, y: number, timestamp: number): TouchPoint => ({
+      x,
+      y,
+      timestamp,
+      identifier: 1,
+      pressure: 0.5
+    });
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      gestureRecognizer.updateConfig({ ...mockConfig, longPressDuration: 500 });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should fire long press while the finger is still down', () => {
+      const listener = jest.fn();
+      gestureRecognizer.setGestureListener(listener);
+      const now = Date.now();
+
+      gestureRecognizer.onTouchStart(touchAt(100, 100, now));
+      jest.advanceTimersByTime(500);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0].type).toBe(GestureType.LONG_PRESS);
+      expect(gestureRecognizer.isGestureActive()).toBe(true);
+
+      expect(gestureRecognizer.onTouchEnd(touchAt(100, 100, now + 800))).toBeNull();
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cancel long press when the finger moves', () => {
+      const listener = jest.fn();
+      gestureRecognizer.setGestureListener(listener);
+      const now = Date.now();
+
+      gestureRecognizer.onTouchStart(touchAt(100, 100, now));
+      gestureRecognizer.onTouchMove(touchAt(130, 100, now + 100));
+      jest.advanceTimersByTime(1000);
+
+      const types = listener.mock.calls.map(([event]: GestureEvent[]) => event.type);
+      expect(types).not.toContain(GestureType.LONG_PRESS);
+    });
+
+    it('should report a short stationary hold as tap', () => {
+      const now = Date.now();
+
+      gestureRecognizer.onTouchStart(touchAt(100, 100, now));
+      const gestureEvent = gestureRecognizer.onTouchEnd(touchAt(100, 100, now + 200));
+
+      expect(gestureEvent?.type).toBe(GestureType.TAP);
+    });
+
+    it('should time events from touch timestamps when the clock uses another time base', () => {
+      const clock = new VirtualClock(0);
+      const recognizer = new GestureRecognizer({ ...mockConfig, longPressDuration: 500 }, clock);
+      const listener = jest.fn();
+      recognizer.setGestureListener(listener);
+
+      // Native touch timestamps count from boot rather than from the epoch
+      recognizer.onTouchStart(touchAt(100, 100, 90000));
+      clock.advanceBy(500);
+      recognizer.onTouchEnd(touchAt(100, 100, 90700));
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0].timestamp).toBe(90500);
+      expect(listener.mock.calls[0][0].state.startTime).toBe(90000);
+      recognizer.destroy();
+    });
+  });
+
+  describe('Gesture Phases', () => {
+    const touchAt = (x: number, y: number, timestamp: number): TouchPoint => ({
+      x,
+      y,
+      timestamp,
+      identifier: 1,
+      pressure: 0.5
+    });
+
+    it('should report began, changed and ended phases for a pan', () => {
+      const listener = jest.fn();
+      gestureRecognizer.setGestureListener(listener);
+      const now = Date.now();
+
+      gestureRecognizer.onTouchStart(touchAt(100, 100, now));
+      gestureRecognizer.onTouchMove(touchAt(105, 100, now + 100));
+      gestureRecognizer.onTouchMove(touchAt(130, 100, now + 200));
+      gestureRecognizer.onTouchMove(touchAt(150, 100, now + 300));
+      const gestureEvent = gestureRecognizer.onTouchEnd(touchAt(150, 100, now + 3000));
+
+      const phases = listener.mock.calls.map(([event]: GestureEvent[]) => event.phase);
+      expect(listener.mock.calls.every(([event]: GestureEvent[]) => event.type === GestureType.PAN)).toBe(true);
+      expect(phases).toEqual([GesturePhase.BEGAN, GesturePhase.CHANGED]);
+      expect(gestureEvent?.type).toBe(GestureType.PAN);
+      expect(gestureEvent?.phase).toBe(GesturePhase.ENDED);
+    });
+
+    it('should report cancelled phase when the touch is cancelled', () => {
+      const now = Date.now();
+
+      gestureRecognizer.onTouchStart(touchAt(100, 100, now));
+      gestureRecognizer.onTouchMove(touchAt(150, 100, now + 100));
+      const gestureEvent = gestureRecognizer.onTouchCancel(touchAt(150, 100, now + 200));
+
+      expect(gestureEvent?.type).toBe(GestureType.PAN);
+      expect(gestureEvent?.phase).toBe(GesturePhase.CANCELLED);
+      expect(gestureRecognizer.isGestureActive()).toBe(false);
+    });
+
+    it('should not report phases for a stationary touch', () => {
+      const listener = jest.fn();
+      gestureRecognizer.setGestureListener(listener);
+      const now = Date.now();
+
+      gestureRecognizer.onTouchStart(touchAt(100, 100, now));
+      gestureRecognizer.onTouchMove(touchAt(102, 101, now + 50));
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(gestureRecognizer.onTouchCancel(touchAt(102, 101, now + 60))).toBeNull();
+    });
+  });
+
+  describe('Edge Swipe', () => {
+    const touchAt = (x: number, y: number, timestamp: number): TouchPoint => ({
+      x,
+      y,
+      timestamp,
+      identifier: 1,
+      pressure: 0.5
+    });
+
+    const swipe = (fromX: number, fromY: number, toX: number, toY: number): GestureEvent | null => {
+      const now = Date.now();
+      gestureRecognizer.onTouchStart(touchAt(fromX, fromY, now));
+      gestureRecognizer.onTouchMove(touchAt((fromX + toX) / 2, (fromY + toY) / 2, now + 50));
+      return gestureRecognizer.onTouchEnd(touchAt(toX, toY, now + 100));
+    };
+
+    beforeEach(() => {
+      gestureRecognizer.updateConfig({ ...mockConfig, edgeInset: 20 });
+      gestureRecognizer.setViewportSize(375, 812);
+    });
+
+    it('should recognize swipe from the left edge', () => {
+      const gestureEvent = swipe(5, 400, 150, 410);
+
+      expect(gestureEvent?.type).toBe(GestureType.EDGE_SWIPE);
+      expect(gestureEvent?.edge).toBe(ScreenEdge.LEFT);
+    });
+
+    it('should recognize swipe from the bottom edge', () => {
+      const gestureEvent = swipe(200, 805, 190, 600);
+
+      expect(gestureEvent?.type).toBe(GestureType.EDGE_SWIPE);
+      expect(gestureEvent?.edge).toBe(ScreenEdge.BOTTOM);
+    });
+
+    it('should not treat a swipe toward the edge as an edge swipe', () => {
+      const gestureEvent = swipe(5, 400, 5, 200);
+
+      expect(gestureEvent?.type).toBe(GestureType.SWIPE_UP);
+      expect(gestureEvent?.edge).toBeUndefined();
+    });
+
+    it('should not recognize edge swipes without a viewport size', () => {
+      const recognizer = new GestureRecognizer(mockConfig);
+      const now = Date.now();
+
+      recognizer.onTouchStart(touchAt(5, 400, now));
+      recognizer.onTouchMove(touchAt(80, 400, now + 50));
+      expect(recognizer.onTouchEnd(touchAt(150, 400, now + 100))?.type).toBe(GestureType.SWIPE_RIGHT);
+      recognizer.destroy();
+    });
+  });
+
+  describe('Force Touch', () => {
+    const pressAt = (pressure: number, timestamp: number): TouchPoint => ({
+      x: 100,
+      y: 100,
+      timestamp,
+      identifier: 1,
+      pressure
+    });
+
+    it('should fire force touch once pressure crosses the threshold', () => {
+      const listener = jest.fn();
+      gestureRecognizer.setGestureListener(listener);
+      gestureRecognizer.updateConfig({ ...mockConfig, forceTouchThreshold: 0.75 });
+      const now = Date.now();
+
+      gestureRecognizer.onTouchStart(pressAt(0.3, now));
+      gestureRecognizer.onTouchMove(pressAt(0.8, now + 50));
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0].type).toBe(GestureType.FORCE_TOUCH);
+      expect(listener.mock.calls[0][0].state.pressure).toBe(0.8);
+      expect(gestureRecognizer.onTouchEnd(pressAt(0, now + 100))).toBeNull();
+    });
+
+    it('should re-arm only after pressure drops below the release threshold', () => {
+      const listener = jest.fn();
+      gestureRecognizer.setGestureListener(listener);
+      gestureRecognizer.updateConfig({
+        ...mockConfig,
+        forceTouchThreshold: 0.75,
+        forceTouchReleaseThreshold: 0.5
+      });
+      const now = Date.now();
+
+      gestureRecognizer.onTouchStart(pressAt(0.8, now));
+      gestureRecognizer.onTouchMove(pressAt(0.6, now + 50));
+      gestureRecognizer.onTouchMove(pressAt(0.9, now + 100));
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      gestureRecognizer.onTouchMove(pressAt(0.4, now + 150));
+      gestureRecognizer.onTouchMove(pressAt(0.9, now + 200));
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fall back to long press on devices without pressure', () => {
+      jest.useFakeTimers();
+      const listener = jest.fn();
+      gestureRecognizer.setGestureListener(listener);
+      gestureRecognizer.setPressureSupported(false);
+      gestureRecognizer.updateConfig({ ...mockConfig, forceTouchFallback: 'long_press' });
+
+      gestureRecognizer.onTouchStart(pressAt(1, Date.now()));
+      jest.advanceTimersByTime(500);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0].type).toBe(GestureType.FORCE_TOUCH);
+      jest.useRealTimers();
+    });
+  });
+
+  describe('Release Velocity', () => {
+    const touchAt = (x: number, timestamp: number): TouchPoint => ({
+      x,
+      y: 100,
+      timestamp,
+      identifier: 1,
+      pressure: 0.5
+    });
+
+    const drag = (samples: [number, number][]): GestureEvent | null => {
+      const now = Date.now();
+      gestureRecognizer.onTouchStart(touchAt(samples[0][0], now + samples[0][1]));
+      samples.slice(1, -1).forEach(([x, time]) => gestureRecognizer.onTouchMove(touchAt(x, now + time)));
+      const [endX, endTime] = samples[samples.length - 1];
+      return gestureRecognizer.onTouchEnd(touchAt(endX, now + endTime));
+    };
+
+    it('should recognize a flick at the end of a slow drag as a swipe', () => {
+      const slowDrag: [number, number][] = Array.from({ length: 10 }, (_, i) => [100 + i * 10, i * 100]);
+      const gestureEvent = drag([...slowDrag, [290, 950]]);
+
+      expect(gestureEvent?.type).toBe(GestureType.SWIPE_RIGHT);
+      expect(gestureEvent?.state.velocityX).toBeCloseTo(2);
+    });
+
+    it('should report no momentum when the finger stops before release', () => {
+      const gestureEvent = drag([[100, 0], [150, 50], [200, 100], [200, 300], [200, 350]]);
+
+      expect(gestureEvent?.type).toBe(GestureType.PAN);
+      expect(gestureEvent?.fling).toBeUndefined();
+    });
+
+    it('should project the fling end point', () => {
+      gestureRecognizer.updateConfig({ ...mockConfig, flingDeceleration: 0.01 });
+      const gestureEvent = drag([[100, 0], [150, 50], [200, 100]]);
+
+      expect(gestureEvent?.fling?.speed).toBeCloseTo(1);
+      expect(gestureEvent?.fling?.direction).toBeCloseTo(0);
+      expect(gestureEvent?.fling?.projectedX).toBeCloseTo(250);
+      expect(gestureEvent?.fling?.projectedY).toBeCloseTo(100);
+      expect(gestureEvent?.fling?.duration).toBeCloseTo(100);
+    });
+
+    it('should fit velocity with least squares', () => {
+      gestureRecognizer.updateConfig({ ...mockConfig, velocityEstimation: 'least_squares' });
+      const gestureEvent = drag([[100, 0], [118, 20], [142, 40], [160, 60], [182, 80], [200, 100]]);
+
+      expect(gestureEvent?.state.velocityX).toBeCloseTo(1, 1);
+    });
+  });
+
+  describe('Shape Recognition', () => {
+    const circle = (centerX: number, centerY: number, radius: number) =>
+      Array.from({ length: 33 }, (_, i) => ({
+        x: centerX + radius * Math.cos((i / 32) * 2 * Math.PI),
+        y: centerY + radius * Math.sin((i / 32) * 2 * Math.PI)
+      }));
+
+    const drawStroke = (points: { x: number; y: number }[]): GestureEvent | null => {
+      const now = Date.now();
+      const touchAt = (index: number): TouchPoint => ({
+        ...points[index],
+        timestamp: now + index * 250,
+        identifier: 1,
+        pressure: 0.5
+      });
+
+      gestureRecognizer.onTouchStart(touchAt(0));
+      for (let i = 1; i < points.length - 1; i++) {
+        gestureRecognizer.onTouchMove(touchAt(i));
+      }
+      return gestureRecognizer.onTouchEnd(touchAt(points.length - 1));
+    };
+
+    beforeEach(() => {
+      const shapes = gestureRecognizer.getShapeRecognizer();
+      shapes.addTemplate('circle', circle(0, 0, 50));
+      shapes.addTemplate('triangle', [
+        { x: 0, y: 100 },
+        { x: 50, y: 0 },
+        { x: 100, y: 100 },
+        { x: 0, y: 100 }
+      ]);
+    });
+
+    it('should recognize a template drawn at another position and size', () => {
+      const result = drawStroke(circle(300, 400, 120));
+
+      expect(result?.type).toBe(GestureType.SHAPE);
+      expect(result?.shape?.name).toBe('circle');
+      expect(result?.shape?.score).toBeGreaterThan(0.9);
+    });
+
+    it('should pick the closest template', () => {
+      const result = drawStroke([
+        { x: 200, y: 400 },
+        { x: 250, y: 320 },
+        { x: 300, y: 240 },
+        { x: 350, y: 320 },
+        { x: 400, y: 400 },
+        { x: 300, y: 405 },
+        { x: 200, y: 400 }
+      ]);
+
+      expect(result?.type).toBe(GestureType.SHAPE);
+      expect(result?.shape?.name).toBe('triangle');
+    });
+
+    it('should fall back to pan when no template scores high enough', () => {
+      const result = drawStroke([
+        { x: 100, y: 100 },
+        { x: 150, y: 110 },
+        { x: 200, y: 100 },
+        { x: 250, y: 110 },
+        { x: 300, y: 100 }
+      ]);
+
+      expect(result?.type).toBe(GestureType.PAN);
+      expect(result?.shape).toBeUndefined();
+    });
+
+    it('should load templates from JSON', () => {
+      const shapes = gestureRecognizer.getShapeRecognizer();
+      const json = JSON.stringify(shapes.getTemplates());
+      shapes.clear();
+      expect(shapes.loadTemplates(JSON.parse(json))).toEqual([]);
+
+      expect(shapes.getTemplates().map(template => template.name)).toEqual(['circle', 'triangle']);
+      expect(drawStroke(circle(100, 100, 40))?.shape?.name).toBe('circle');
+    });
+
+    it('should return the names of templates rejected from JSON', () => {
+      const shapes = gestureRecognizer.getShapeRecognizer();
+      shapes.clear();
+      const rejected = shapes.loadTemplates(JSON.parse(JSON.stringify([
+        { name: 'dot', points: [{ x: 0, y: 0 }] },
+        { name: 'missing' },
+        { name: 'broken', points: [{ x: 0 }, { x: 10, y: 10 }] },
+        null,
+        { name: 'line', points: [{ x: 0, y: 0 }, { x: 100, y: 0 }] }
+      ])));
+
+      expect(rejected).toEqual(['dot', 'missing', 'broken', '#3']);
+      expect(shapes.getTemplates().map(template => template.name)).toEqual(['line']);
+    });
+  });
+
   describe('Multi-touch Gestures', () => {
     it('should handle multi-touch start', () => {
       const touch1: TouchPoint = {
@@ -228,6 +712,62 @@ describe('GestureRecognizer', () => {
       const currentState = gestureRecognizer.getCurrentState();
       expect(currentState?.scale).toBeGreaterThan(1);
     });
+
+    const pointer = (identifier: number, x: number, y: number, timestamp: number): TouchPoint => ({
+      x,
+      y,
+      timestamp,
+      identifier,
+      pressure: 0.5
+    });
+
+    it('should calculate centroid and rotation for two fingers', () => {
+      const now = Date.now();
+
+      gestureRecognizer.onTouchStart(pointer(1, 100, 100, now));
+      gestureRecognizer.onTouchStart(pointer(2, 200, 100, now));
+      gestureRecognizer.onTouchMove(pointer(2, 100, 200, now + 100));
+
+      const currentState = gestureRecognizer.getCurrentState();
+      expect(currentState?.rotation).toBeCloseTo(90);
+      expect(currentState?.scale).toBeCloseTo(1);
+      expect(currentState?.centroidX).toBe(100);
+      expect(currentState?.centroidY).toBe(150);
+    });
+
+    it('should not jump when a pointer is added or removed', () => {
+      const now = Date.now();
+
+      gestureRecognizer.onTouchStart(pointer(1, 100, 100, now));
+      gestureRecognizer.onTouchStart(pointer(2, 200, 100, now));
+      gestureRecognizer.onTouchMove(pointer(2, 300, 100, now + 100));
+      const scaleBefore = gestureRecognizer.getCurrentState()?.scale;
+
+      gestureRecognizer.onTouchStart(pointer(3, 500, 500, now + 150));
+      expect(gestureRecognizer.getCurrentState()?.scale).toBe(scaleBefore);
+
+      gestureRecognizer.onTouchEnd(pointer(1, 100, 100, now + 200));
+      const deltaX = gestureRecognizer.getCurrentState()?.deltaX;
+      gestureRecognizer.onTouchMove(pointer(2, 300, 100, now + 250));
+
+      expect(gestureRecognizer.getCurrentState()?.currentTouches).toHaveLength(2);
+      expect(gestureRecognizer.getCurrentState()?.deltaX).toBe(deltaX);
+    });
+
+    it('should recognize pinch once all fingers lift', () => {
+      const now = Date.now();
+
+      gestureRecognizer.onTouchStart(pointer(1, 100, 100, now));
+      gestureRecognizer.onTouchStart(pointer(2, 200, 100, now));
+      gestureRecognizer.onTouchMove(pointer(1, 50, 100, now + 100));
+      gestureRecognizer.onTouchMove(pointer(2, 250, 100, now + 100));
+      gestureRecognizer.onTouchEnd(pointer(1, 50, 100, now + 150));
+      const gestureEvent = gestureRecognizer.onTouchEnd(pointer(2, 250, 100, now + 150));
+
+      expect(gestureEvent?.type).toBe(GestureType.PINCH);
+      expect(gestureEvent?.phase).toBe(GesturePhase.ENDED);
+      expect(gestureEvent?.state.scale).toBeCloseTo(2);
+    });
   });
 
   describe('Configuration', () => {
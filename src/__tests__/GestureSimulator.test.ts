@@ -0,0 +1,143 @@
+/**
+ * Tests for GestureSimulator
+ */
+
+import { GestureSimulator } from '../testing/GestureSimulator';
+import { TouchControlManager } from '../core/TouchControlManager';
+import { VirtualClock } from '../core/Clock';
+import { TouchControlConfig, GestureType, ScreenEdge } from '../types/TouchTypes';
+
+describe('GestureSimulator', () => {
+  const config: TouchControlConfig = {
+    platform: 'android',
+    minTouchTargetSize: 44,
+    maxTouchTargetSize: 88,
+    spacingBetweenTargets: 8,
+    gestureConfig: {
+      minDistance: 10,
+      maxDistance: 1000,
+      minDuration: 100,
+      maxDuration: 2000,
+      velocityThreshold: 0.3,
+      scaleThreshold: 0.1,
+      rotationThreshold: 15,
+      doubleTapInterval: 300,
+      longPressDuration: 500,
+      edgeInset: 20
+    },
+    accessibility: {
+      screenReaderEnabled: false,
+      voiceControlEnabled: false,
+      switchControlEnabled: false,
+      highContrastEnabled: false,
+      reducedMotionEnabled: false,
+      largeTextEnabled: false
+    },
+    performance: {
+      maxRecognitionTime: 100,
+      maxMemoryUsage: 50,
+      enableCaching: true,
+      enableOptimization: true
+    }
+  };
+
+  const typesOf = (simulator: GestureSimulator) => simulator.run(config).map(event => event.type);
+
+  describe('Touch streams', () => {
+    it('should sample moves at the sampling rate', () => {
+      const recording = new GestureSimulator({ samplingRate: 100 })
+        .swipe({ from: { x: 100, y: 100 }, to: { x: 200, y: 100 }, duration: 100 })
+        .toRecording(config);
+
+      const moves = recording.events.filter(event => event.type === 'move');
+      expect(recording.events[0].type).toBe('start');
+      expect(moves).toHaveLength(10);
+      expect(moves.map(event => event.time)).toEqual([10, 20, 30, 40, 50, 60, 70, 80, 90, 100]);
+      expect(recording.events[recording.events.length - 1].touch).toMatchObject({ x: 200, y: 100 });
+    });
+
+    it('should move along the velocity profile', () => {
+      const positionAtHalfway = (profile: 'linear' | 'ease_in' | 'ease_out') =>
+        new GestureSimulator({ samplingRate: 10 })
+          .swipe({ from: { x: 0, y: 0 }, to: { x: 100, y: 0 }, duration: 200, profile })
+          .toRecording(config).events[1].touch.x;
+
+      expect(positionAtHalfway('linear')).toBe(50);
+      expect(positionAtHalfway('ease_in')).toBe(25);
+      expect(positionAtHalfway('ease_out')).toBe(75);
+    });
+
+    it('should jitter samples repeatably within bounds', () => {
+      const touches = (seed: number) =>
+        new GestureSimulator({ jitter: 3, seed })
+          .hold(100, 100, 200)
+          .toRecording(config)
+          .events.map(event => event.touch);
+
+      const first = touches(7);
+      first.forEach(touch => {
+        expect(Math.abs(touch.x - 100)).toBeLessThanOrEqual(3);
+        expect(Math.abs(touch.y - 100)).toBeLessThanOrEqual(3);
+      });
+      expect(touches(7)).toEqual(first);
+      expect(touches(8)).not.toEqual(first);
+    });
+
+    it('should give every finger its own identifier', () => {
+      const recording = new GestureSimulator()
+        .tap(100, 100)
+        .pinch({ centerX: 200, centerY: 200, endDistance: 200 })
+        .toRecording(config);
+
+      const identifiers = new Set(recording.events.map(event => event.touch.identifier));
+      expect(identifiers).toEqual(new Set([1, 2, 3]));
+    });
+  });
+
+  describe('Recognition', () => {
+    it('should recognize taps, double taps and holds', () => {
+      expect(typesOf(new GestureSimulator().tap(100, 100))).toEqual([GestureType.TAP]);
+      expect(typesOf(new GestureSimulator().doubleTap(100, 100))).toEqual([GestureType.DOUBLE_TAP]);
+      expect(typesOf(new GestureSimulator().hold(100, 100, 700))).toEqual([GestureType.LONG_PRESS]);
+    });
+
+    it('should recognize swipes despite jitter', () => {
+      const events = new GestureSimulator({ jitter: 2, seed: 3 })
+        .swipe({ from: { x: 100, y: 400 }, to: { x: 300, y: 400 }, profile: 'ease_in_out' })
+        .run(config);
+
+      expect(events.map(event => event.type)).toContain(GestureType.SWIPE_RIGHT);
+    });
+
+    it('should recognize pinches and rotations', () => {
+      const pinch = typesOf(new GestureSimulator().pinch({ centerX: 200, centerY: 400, endDistance: 200 }));
+      const rotation = typesOf(new GestureSimulator().rotate({ centerX: 200, centerY: 400, rotation: 60 }));
+
+      expect(pinch).toContain(GestureType.PINCH);
+      expect(rotation).toContain(GestureType.ROTATE);
+    });
+
+    it('should recognize edge swipes', () => {
+      const events = new GestureSimulator({ viewport: { width: 400, height: 800 } })
+        .edgeSwipe(ScreenEdge.LEFT)
+        .run(config);
+
+      const edgeSwipe = events.find(event => event.type === GestureType.EDGE_SWIPE);
+      expect(edgeSwipe?.edge).toBe(ScreenEdge.LEFT);
+    });
+
+    it('should feed an existing manager from the current time of its clock', () => {
+      const clock = new VirtualClock(5000);
+      const manager = new TouchControlManager(config, { clock });
+      const simulator = new GestureSimulator().tap(100, 100);
+
+      const first = simulator.feed(manager, clock);
+      const second = simulator.feed(manager, clock);
+      manager.destroy();
+
+      expect(first.map(event => event.type)).toEqual([GestureType.TAP]);
+      expect(first[0].timestamp).toBe(5060);
+      expect(second[0].timestamp).toBeGreaterThan(first[0].timestamp);
+    });
+  });
+});
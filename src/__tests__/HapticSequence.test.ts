@@ -0,0 +1,170 @@
+/**
+ * Tests for haptic sequences
+ */
+
+import { FeedbackManager } from '../core/FeedbackManager';
+import { RecordingHapticBackend } from '../core/HapticBackend';
+import { HapticSequenceRegistry, defaultHapticSequences } from '../core/HapticSequenceRegistry';
+import { getEnvelopeIntensity, validateHapticSequence } from '../core/HapticSequencePlayer';
+import { VirtualClock } from '../core/Clock';
+import { GestureType, HapticSequence, HapticType, TouchFeedbackType } from '../types/TouchTypes';
+
+describe('Haptic sequences', () => {
+  let clock: VirtualClock;
+  let backend: RecordingHapticBackend;
+  let feedbackManager: FeedbackManager;
+
+  const triggeredTypes = () => backend.getTriggered().map(feedback => feedback.type);
+
+  beforeEach(() => {
+    clock = new VirtualClock();
+    backend = new RecordingHapticBackend();
+    feedbackManager = new FeedbackManager({ hapticBackend: backend, clock, platform: 'ios' });
+  });
+
+  afterEach(() => {
+    feedbackManager.destroy();
+  });
+
+  describe('Playback', () => {
+    it('should play pulses and wait out pauses', () => {
+      feedbackManager.playHapticSequence({
+        steps: [{ pulse: HapticType.HEAVY }, { pulse: HapticType.LIGHT }, { pause: 100 }, { pulse: HapticType.MEDIUM }]
+      });
+
+      expect(triggeredTypes()).toEqual([HapticType.HEAVY, HapticType.LIGHT]);
+
+      clock.advanceBy(99);
+      expect(triggeredTypes()).toHaveLength(2);
+
+      clock.advanceBy(1);
+      expect(triggeredTypes()).toEqual([HapticType.HEAVY, HapticType.LIGHT, HapticType.MEDIUM]);
+      expect(clock.getPendingTimerCount()).toBe(0);
+    });
+
+    it('should repeat a heartbeat until cancelled', () => {
+      expect(feedbackManager.playHapticSequence('heartbeat')).toBe(true);
+      // Beats start every 820ms: 0, 820, 1640 and 2460
+      clock.advanceBy(820 * 3);
+
+      expect(triggeredTypes()).toHaveLength(7);
+
+      feedbackManager.cancelHapticSequence();
+      clock.advanceBy(2000);
+      expect(triggeredTypes()).toHaveLength(7);
+      expect(clock.getPendingTimerCount()).toBe(0);
+    });
+
+    it('should scale pulses by step intensity, envelope and feedback intensity', () => {
+      feedbackManager.setFeedbackIntensity(0.5);
+      feedbackManager.playHapticSequence({
+        steps: [{ pulse: HapticType.HEAVY }, { pause: 50 }, { pulse: HapticType.HEAVY, intensity: 0.5 }],
+        envelope: [{ time: 0, intensity: 1 }, { time: 100, intensity: 0 }]
+      });
+      clock.advanceBy(50);
+
+      expect(backend.getTriggered().map(feedback => feedback.intensity)).toEqual([0.5, 0.125]);
+    });
+
+    it('should not play while haptics are disabled, and stop when they are disabled', () => {
+      feedbackManager.playHapticSequence('heartbeat');
+      feedbackManager.setHapticEnabled(false);
+      clock.advanceBy(1000);
+
+      expect(triggeredTypes()).toHaveLength(1);
+      expect(feedbackManager.playHapticSequence('staccato')).toBe(false);
+    });
+  });
+
+  describe('Priority', () => {
+    it('should let a sequence of higher or equal priority pre-empt the playing one', () => {
+      feedbackManager.playHapticSequence('heartbeat');
+      backend.clear();
+
+      expect(feedbackManager.playHapticSequence('staccato')).toBe(true);
+      clock.advanceBy(2000);
+
+      expect(triggeredTypes()).toEqual([HapticType.HEAVY, HapticType.HEAVY, HapticType.HEAVY]);
+    });
+
+    it('should not let a sequence of lower priority interrupt', () => {
+      feedbackManager.playHapticSequence('alarm');
+
+      expect(feedbackManager.playHapticSequence('heartbeat')).toBe(false);
+      clock.advanceBy(300);
+      expect(triggeredTypes()).toEqual([HapticType.ERROR, HapticType.ERROR]);
+      expect(feedbackManager.playHapticSequence('heartbeat')).toBe(true);
+    });
+
+    it('should only cancel the named sequence', () => {
+      feedbackManager.playHapticSequence('heartbeat');
+      feedbackManager.cancelHapticSequence('staccato');
+      clock.advanceBy(820);
+
+      expect(triggeredTypes()).toHaveLength(3);
+    });
+  });
+
+  describe('Registry', () => {
+    it('should play the sequence bound to an app event', () => {
+      feedbackManager.getHapticSequences().bind('low_health', 'heartbeat');
+
+      expect(feedbackManager.triggerHapticEvent('low_health')).toBe(true);
+      expect(feedbackManager.triggerHapticEvent('level_up')).toBe(false);
+      expect(triggeredTypes()).toEqual([HapticType.HEAVY]);
+    });
+
+    it('should play the sequence bound to a gesture instead of its single pulse', () => {
+      feedbackManager.getHapticSequences().bind(GestureType.DOUBLE_TAP, 'staccato');
+      feedbackManager.provideFeedback(TouchFeedbackType.HAPTIC, { type: GestureType.DOUBLE_TAP, timestamp: 0 });
+      clock.advanceBy(80);
+
+      expect(triggeredTypes()).toEqual([HapticType.HEAVY, HapticType.HEAVY, HapticType.HEAVY]);
+    });
+
+    it('should reject invalid sequences and bindings to unknown sequences', () => {
+      const registry = new HapticSequenceRegistry({});
+
+      expect(registry.register('silent', { steps: [{ pause: 100 }] })).toBe(false);
+      expect(registry.bind(GestureType.TAP, 'silent')).toBe(false);
+    });
+
+    it('should drop bindings when their sequence is unregistered', () => {
+      const registry = new HapticSequenceRegistry();
+      registry.bind('critical_hit', 'staccato');
+      registry.unregister('staccato');
+
+      expect(registry.getBinding('critical_hit')).toBeNull();
+    });
+  });
+
+  describe('Sequence format', () => {
+    it('should reject sequences that repeat without pausing', () => {
+      const sequence: HapticSequence = { steps: [{ pulse: HapticType.LIGHT }], loop: true };
+
+      expect(validateHapticSequence(sequence)).toBe('repeats without pausing');
+      expect(validateHapticSequence({ ...sequence, loop: false, repeat: Infinity })).toBe('has an invalid repeat count');
+      Object.values(defaultHapticSequences).forEach(defaultSequence => {
+        expect(validateHapticSequence(defaultSequence)).toBeNull();
+      });
+    });
+
+    it('should keep looping after a round trip through JSON', () => {
+      const heartbeat: HapticSequence = JSON.parse(JSON.stringify(defaultHapticSequences.heartbeat));
+
+      expect(heartbeat).toEqual(defaultHapticSequences.heartbeat);
+      expect(feedbackManager.playHapticSequence(heartbeat)).toBe(true);
+      clock.advanceBy(820 * 3);
+      expect(triggeredTypes()).toHaveLength(7);
+    });
+
+    it('should interpolate the envelope and hold its ends', () => {
+      const envelope = [{ time: 100, intensity: 1 }, { time: 0, intensity: 0.5 }];
+
+      expect(getEnvelopeIntensity(envelope, -10)).toBe(0.5);
+      expect(getEnvelopeIntensity(envelope, 50)).toBe(0.75);
+      expect(getEnvelopeIntensity(envelope, 500)).toBe(1);
+      expect(getEnvelopeIntensity(undefined, 50)).toBe(1);
+    });
+  });
+});
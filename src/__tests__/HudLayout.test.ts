@@ -0,0 +1,145 @@
+/**
+ * Tests for HudLayout
+ */
+
+import { HudLayout } from '../core/HudLayout';
+import { HudAnchor, HudButtonLayout, StorageAdapter } from '../types/TouchTypes';
+
+describe('HudLayout', () => {
+  let hudLayout: HudLayout;
+  let storage: StorageAdapter & { items: Map<string, string> };
+
+  const defaults: HudButtonLayout[] = [
+    { id: 'attack', anchor: HudAnchor.BOTTOM_RIGHT, offsetX: -60, offsetY: -60, size: 72 },
+    { id: 'chat', anchor: HudAnchor.TOP_LEFT, offsetX: 40, offsetY: 40, size: 48 }
+  ];
+
+  beforeEach(() => {
+    const items = new Map<string, string>();
+    storage = {
+      items,
+      getItem: jest.fn(async (key: string) => items.get(key) ?? null),
+      setItem: jest.fn(async (key: string, value: string) => {
+        items.set(key, value);
+      }),
+      removeItem: jest.fn(async (key: string) => {
+        items.delete(key);
+      })
+    };
+
+    hudLayout = new HudLayout(defaults, { storage, minButtonSize: 44, maxButtonSize: 120 });
+    hudLayout.setViewport(400, 800, { top: 40, right: 0, bottom: 20, left: 0 });
+  });
+
+  describe('Positioning', () => {
+    it('should position buttons from their anchor within the safe area', () => {
+      expect(hudLayout.getButtonRect('attack')).toEqual({ x: 304, y: 684, width: 72, height: 72 });
+      expect(hudLayout.getButtonRect('chat')).toEqual({ x: 16, y: 56, width: 48, height: 48 });
+    });
+
+    it('should keep anchored offsets when the screen size changes', () => {
+      hudLayout.setViewport(800, 400, { top: 0, right: 30, bottom: 0, left: 30 });
+      expect(hudLayout.getButtonRect('attack')).toEqual({ x: 674, y: 304, width: 72, height: 72 });
+    });
+
+    it('should return null for unknown buttons', () => {
+      expect(hudLayout.getButtonRect('missing')).toBeNull();
+    });
+  });
+
+  describe('Editing', () => {
+    it('should re-anchor a moved button to the nearest part of the screen', () => {
+      hudLayout.moveButton('chat', 380, 420);
+
+      expect(hudLayout.getButton('chat')).toMatchObject({ anchor: HudAnchor.RIGHT, offsetX: -24, offsetY: 10 });
+      expect(hudLayout.getButtonRect('chat')).toEqual({ x: 352, y: 396, width: 48, height: 48 });
+    });
+
+    it('should keep moved buttons inside the safe area', () => {
+      hudLayout.moveButton('attack', 500, 10);
+      expect(hudLayout.getButtonRect('attack')).toEqual({ x: 328, y: 40, width: 72, height: 72 });
+    });
+
+    it('should clamp button sizes', () => {
+      hudLayout.resizeButton('attack', 20);
+      expect(hudLayout.getButton('attack')?.size).toBe(44);
+      hudLayout.resizeButton('attack', 300);
+      expect(hudLayout.getButton('attack')?.size).toBe(120);
+      expect(hudLayout.resizeButton('missing', 60)).toBe(false);
+    });
+
+    it('should notify listeners and reset to defaults', () => {
+      const listener = jest.fn();
+      hudLayout.setChangeListener(listener);
+
+      hudLayout.resizeButton('chat', 64);
+      hudLayout.resetToDefaults();
+
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(hudLayout.getButtons()).toEqual(defaults);
+    });
+  });
+
+  describe('Persistence', () => {
+    it('should save and load layouts', async () => {
+      hudLayout.moveButton('chat', 200, 400);
+      await hudLayout.save();
+
+      const restored = new HudLayout(defaults, { storage });
+      expect(await restored.load()).toBe(true);
+      expect(restored.getButton('chat')?.anchor).toBe(HudAnchor.CENTER);
+    });
+
+    it('should keep defaults for buttons missing from the saved layout', async () => {
+      storage.items.set(
+        'touch-controls/hud-layout',
+        JSON.stringify({ version: 1, buttons: [{ ...defaults[1], size: 60 }] })
+      );
+
+      await hudLayout.load();
+
+      expect(hudLayout.getButton('chat')?.size).toBe(60);
+      expect(hudLayout.getButton('attack')).toEqual(defaults[0]);
+    });
+
+    it('should keep defaults for invalid saved buttons and clamp the rest', async () => {
+      storage.items.set(
+        'touch-controls/hud-layout',
+        JSON.stringify({
+          version: 1,
+          buttons: [
+            { ...defaults[0], anchor: 'nowhere' },
+            { ...defaults[1], offsetX: -500, size: 500 },
+            null
+          ]
+        })
+      );
+
+      expect(await hudLayout.load()).toBe(true);
+      expect(hudLayout.getButton('attack')).toEqual(defaults[0]);
+      expect(hudLayout.getButton('chat')?.size).toBe(120);
+      expect(hudLayout.getButtonRect('chat')?.x).toBe(0);
+    });
+
+    it('should not apply a layout when storage fails', async () => {
+      storage.getItem = jest.fn().mockRejectedValue(new Error('Storage unavailable'));
+
+      expect(await hudLayout.load()).toBe(false);
+      expect(hudLayout.getButtons()).toEqual(defaults);
+    });
+
+    it('should ignore saved layouts with another version', async () => {
+      storage.items.set('touch-controls/hud-layout', JSON.stringify({ version: 99, buttons: [] }));
+
+      expect(await hudLayout.load()).toBe(false);
+      expect(hudLayout.getButtons()).toEqual(defaults);
+    });
+
+    it('should remove the saved layout', async () => {
+      await hudLayout.save();
+      await hudLayout.clearSaved();
+
+      expect(storage.items.size).toBe(0);
+    });
+  });
+});
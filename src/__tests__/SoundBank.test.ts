@@ -0,0 +1,225 @@
+/**
+ * Tests for SoundBank and audio backends
+ */
+
+import Sound from 'react-native-sound';
+import { SoundBank, defaultSoundBank } from '../core/SoundBank';
+import { FakeAudioBackend, NativeAudioBackend } from '../core/AudioBackend';
+import { FeedbackManager } from '../core/FeedbackManager';
+import { RecordingHapticBackend } from '../core/HapticBackend';
+import { AudioCategory, AudioType, GestureType, SoundAsset, TouchFeedbackType } from '../types/TouchTypes';
+
+jest.mock('react-native-sound', () => {
+  const MockSound = jest.fn().mockImplementation((file: string, basePath: string, callback: (error?: Error) => void) => {
+    callback(undefined);
+    return { file, basePath, setVolume: jest.fn(), play: jest.fn(), stop: jest.fn(), release: jest.fn() };
+  });
+  return Object.assign(MockSound, { MAIN_BUNDLE: 'main-bundle', setCategory: jest.fn() });
+});
+
+const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+describe('SoundBank', () => {
+  let backend: FakeAudioBackend;
+  let soundBank: SoundBank;
+
+  const sounds: Record<string, SoundAsset> = {
+    tap: { file: 'npctalk', category: AudioCategory.UI, volume: 0.5 },
+    swipe: { file: 'teleport', category: AudioCategory.UI },
+    loot: { file: 'loot', category: AudioCategory.GAME },
+    heal: { file: 'heal', category: AudioCategory.GAME }
+  };
+
+  beforeEach(() => {
+    backend = new FakeAudioBackend();
+    soundBank = new SoundBank(sounds, { backend, maxVoices: 2 });
+  });
+
+  afterEach(() => {
+    soundBank.destroy();
+  });
+
+  describe('Playback', () => {
+    it('should load a sound on first play and play it at its volume', async () => {
+      expect(soundBank.play('tap')).toBe(true);
+      await flushPromises();
+
+      expect(backend.getLoadedFiles()).toEqual(['npctalk']);
+      expect(backend.getPlayed()).toEqual([{ file: 'npctalk', volume: 0.5 }]);
+      expect(soundBank.getActiveVoiceCount()).toBe(1);
+    });
+
+    it('should preload sounds once', async () => {
+      await expect(soundBank.preload()).resolves.toBe(true);
+      soundBank.play('loot');
+      await flushPromises();
+
+      expect(backend.getLoadedFiles()).toEqual(['npctalk', 'teleport', 'loot', 'heal']);
+    });
+
+    it('should report sounds that fail to load', async () => {
+      soundBank = new SoundBank(sounds, { backend: new FakeAudioBackend({ missingFiles: ['loot'] }) });
+
+      await expect(soundBank.preload(['tap', 'loot'])).resolves.toBe(false);
+      await expect(soundBank.preload(['tap'])).resolves.toBe(true);
+    });
+
+    it('should pass errors loading or playing a sound to the error callback', async () => {
+      const onError = jest.fn();
+      soundBank = new SoundBank(sounds, { backend: new FakeAudioBackend({ missingFiles: ['loot'] }) });
+      soundBank.play('loot', onError);
+      await flushPromises();
+
+      expect(onError).toHaveBeenCalledWith(new Error('Sound file loot not found'));
+
+      jest.spyOn(backend, 'load').mockResolvedValue({
+        play: () => {
+          throw new Error('Audio session interrupted');
+        },
+        stop: jest.fn(),
+        release: jest.fn()
+      });
+      soundBank = new SoundBank(sounds, { backend });
+      soundBank.play('heal', onError);
+      await flushPromises();
+
+      expect(onError).toHaveBeenLastCalledWith(new Error('Audio session interrupted'));
+      expect(soundBank.getActiveVoiceCount()).toBe(0);
+    });
+
+    it('should not play unknown sounds', () => {
+      expect(soundBank.play('unknown')).toBe(false);
+    });
+
+    it('should free a voice when its sound ends', async () => {
+      soundBank.play('loot');
+      await flushPromises();
+      backend.finish('loot');
+
+      expect(soundBank.getActiveVoiceCount()).toBe(0);
+    });
+  });
+
+  describe('Voice limit', () => {
+    it('should stop the oldest sound when every voice is in use', async () => {
+      soundBank.play('tap');
+      soundBank.play('loot');
+      soundBank.play('heal');
+      await flushPromises();
+
+      expect(soundBank.getActiveVoiceCount()).toBe(2);
+      expect(backend.getPlaying()).toEqual(['loot', 'heal']);
+    });
+
+    it('should restart a playing sound without taking another voice', async () => {
+      soundBank.play('loot');
+      soundBank.play('heal');
+      await flushPromises();
+      soundBank.play('loot');
+      await flushPromises();
+
+      expect(soundBank.getActiveVoiceCount()).toBe(2);
+      expect(backend.getPlaying()).toEqual(['heal', 'loot']);
+    });
+  });
+
+  describe('Categories', () => {
+    it('should scale volume by category', async () => {
+      soundBank.setCategoryVolume(AudioCategory.UI, 0.5);
+      soundBank.play('tap');
+      await flushPromises();
+
+      expect(backend.getPlayed()).toEqual([{ file: 'npctalk', volume: 0.25 }]);
+      expect(soundBank.getCategoryVolume(AudioCategory.GAME)).toBe(1);
+    });
+
+    it('should silence muted categories and stop their sounds', async () => {
+      soundBank.play('tap');
+      soundBank.play('loot');
+      await flushPromises();
+
+      soundBank.setCategoryMuted(AudioCategory.GAME, true);
+
+      expect(backend.getPlaying()).toEqual(['npctalk']);
+      expect(soundBank.play('heal')).toBe(false);
+      expect(soundBank.isCategoryMuted(AudioCategory.GAME)).toBe(true);
+
+      soundBank.setCategoryMuted(AudioCategory.GAME, false);
+      expect(soundBank.play('heal')).toBe(true);
+    });
+  });
+
+  describe('Default sound bank', () => {
+    it('should map feedback and game sounds to the BrowserQuest sound effects', () => {
+      expect(defaultSoundBank[AudioType.TAP]).toMatchObject({ file: 'npctalk', category: AudioCategory.UI });
+      expect(defaultSoundBank[AudioType.SUCCESS]).toMatchObject({ file: 'achievement' });
+      expect(defaultSoundBank.loot).toEqual({ file: 'loot', category: AudioCategory.GAME });
+    });
+  });
+
+  describe('FeedbackManager', () => {
+    let feedbackManager: FeedbackManager;
+
+    beforeEach(() => {
+      soundBank = new SoundBank(defaultSoundBank, { backend });
+      feedbackManager = new FeedbackManager({ hapticBackend: new RecordingHapticBackend(), soundBank });
+    });
+
+    afterEach(() => {
+      feedbackManager.destroy();
+    });
+
+    it('should play audio feedback from the sound bank', async () => {
+      feedbackManager.provideFeedback(TouchFeedbackType.AUDIO, { type: GestureType.TAP, timestamp: 0 });
+      feedbackManager.provideFeedback(TouchFeedbackType.AUDIO, { type: GestureType.PINCH, timestamp: 0 });
+      feedbackManager.provideSuccessFeedback();
+      await flushPromises();
+
+      expect(backend.getPlayed().map(playback => playback.file)).toEqual(['npctalk', 'achievement']);
+    });
+
+    it('should report sounds that fail to play through the feedback error path', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation();
+      const failingBackend = new FakeAudioBackend({ missingFiles: ['npctalk'] });
+      feedbackManager.setSoundBank(new SoundBank(defaultSoundBank, { backend: failingBackend }));
+      feedbackManager.provideFeedback(TouchFeedbackType.AUDIO, { type: GestureType.TAP, timestamp: 0 });
+      await flushPromises();
+
+      expect(consoleError).toHaveBeenCalledWith('Error in sound for tap:', new Error('Sound file npctalk not found'));
+      jest.restoreAllMocks();
+    });
+
+    it('should stop sounds when audio is disabled', async () => {
+      feedbackManager.provideErrorFeedback();
+      await flushPromises();
+      feedbackManager.setAudioEnabled(false);
+      feedbackManager.provideWarningFeedback();
+      await flushPromises();
+
+      expect(backend.getPlaying()).toEqual([]);
+      expect(backend.getPlayed().map(playback => playback.file)).toEqual(['noloot']);
+    });
+  });
+
+  describe('Native backend', () => {
+    it('should load sounds from the app bundle through react-native-sound', async () => {
+      const sound = await new NativeAudioBackend().load('loot');
+      sound.play(0.5, jest.fn());
+
+      const nativeSound = (Sound as unknown as jest.Mock).mock.results[0].value;
+      expect(Sound).toHaveBeenCalledWith('loot.mp3', 'main-bundle', expect.any(Function));
+      expect(Sound.setCategory).not.toHaveBeenCalled();
+      expect(nativeSound.setVolume).toHaveBeenCalledWith(0.5);
+      expect(nativeSound.play).toHaveBeenCalled();
+    });
+
+    it('should set the audio session category once when given one', async () => {
+      const nativeBackend = new NativeAudioBackend({ category: 'Ambient', mixWithOthers: true });
+      await nativeBackend.load('loot');
+      await nativeBackend.load('heal');
+
+      expect(Sound.setCategory).toHaveBeenCalledTimes(1);
+      expect(Sound.setCategory).toHaveBeenCalledWith('Ambient', true);
+    });
+  });
+});
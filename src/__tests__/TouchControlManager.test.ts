@@ -3,7 +3,17 @@
  */
 
 import { TouchControlManager } from '../core/TouchControlManager';
-import { TouchControlConfig, TouchPoint, GestureType, TouchTarget } from '../types/TouchTypes';
+import { CustomGestureRecognizer } from '../core/CustomGestureRecognizer';
+import {
+  TouchControlConfig,
+  TouchPoint,
+  GestureType,
+  GestureEvent,
+  TouchTarget,
+  GestureState,
+  GesturePhase,
+  RecognizerState
+} from '../types/TouchTypes';
 
 describe('TouchControlManager', () => {
   let touchControlManager: TouchControlManager;
@@ -101,6 +111,132 @@ describe('TouchControlManager', () => {
     });
   });
 
+  describe('Target Hit Testing', () => {
+    const button: TouchTarget = {
+      id: 'attack-button',
+      x: 300,
+      y: 600,
+      width: 30,
+      height: 30,
+      minSize: 44
+    };
+
+    const tapAt = (x: number, y: number) => {
+      const now = Date.now();
+      touchControlManager.handleTouchStart({ x, y, timestamp: now, identifier: 1, pressure: 0.5 });
+      touchControlManager.handleTouchEnd({ x, y, timestamp: now + 50, identifier: 1, pressure: 0.5 });
+    };
+
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation();
+      touchControlManager.registerTouchTarget(button);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should populate the target of gestures starting on it', () => {
+      const callback = jest.fn();
+      touchControlManager.onGesture(GestureType.TAP, callback);
+
+      // Inside the expanded hit area of the undersized button
+      tapAt(296, 605);
+      tapAt(100, 100);
+
+      expect(callback.mock.calls[0][0].target?.id).toBe('attack-button');
+      expect(callback.mock.calls[1][0].target).toBeUndefined();
+    });
+
+    it('should call per-target callbacks only for their target', () => {
+      const callback = jest.fn();
+      touchControlManager.onTargetGesture('attack-button', GestureType.TAP, callback);
+
+      tapAt(310, 610);
+      tapAt(100, 100);
+
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop calling removed per-target callbacks', () => {
+      const callback = jest.fn();
+      touchControlManager.onTargetGesture('attack-button', GestureType.TAP, callback);
+      touchControlManager.offTargetGesture('attack-button', GestureType.TAP, callback);
+
+      tapAt(310, 610);
+
+      expect(callback).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Target Gesture Bubbling', () => {
+    const panel: TouchTarget = { id: 'inventory', x: 0, y: 400, width: 300, height: 200, minSize: 44 };
+    const slot: TouchTarget = {
+      id: 'slot-1',
+      x: 20,
+      y: 420,
+      width: 60,
+      height: 60,
+      minSize: 44,
+      parentId: 'inventory'
+    };
+
+    const tapAt = (x: number, y: number) => {
+      const now = Date.now();
+      touchControlManager.handleTouchStart({ x, y, timestamp: now, identifier: 1, pressure: 0.5 });
+      touchControlManager.handleTouchEnd({ x, y, timestamp: now + 50, identifier: 1, pressure: 0.5 });
+    };
+
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation();
+      // Nested targets often register before their parents
+      touchControlManager.registerTouchTarget(slot);
+      touchControlManager.registerTouchTarget(panel);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should bubble from a nested target to its parent and then to global callbacks', () => {
+      const calls: string[] = [];
+      touchControlManager.onTargetGesture('slot-1', GestureType.TAP, event => calls.push(`slot:${event.currentTarget.id}`));
+      touchControlManager.onTargetGesture('inventory', GestureType.TAP, event => {
+        calls.push(`panel:${event.currentTarget.id}:${event.target?.id}`);
+      });
+      touchControlManager.onGesture(GestureType.TAP, () => calls.push('global'));
+
+      tapAt(40, 440);
+
+      expect(calls).toEqual(['slot:slot-1', 'panel:inventory:slot-1', 'global']);
+    });
+
+    it('should stop bubbling when propagation is stopped', () => {
+      const panelCallback = jest.fn();
+      const globalCallback = jest.fn();
+      touchControlManager.onTargetGesture('slot-1', GestureType.TAP, event => event.stopPropagation());
+      touchControlManager.onTargetGesture('inventory', GestureType.TAP, panelCallback);
+      touchControlManager.onGesture(GestureType.TAP, globalCallback);
+
+      tapAt(40, 440);
+
+      expect(panelCallback).not.toHaveBeenCalled();
+      expect(globalCallback).not.toHaveBeenCalled();
+    });
+
+    it('should subscribe to a set of targets at once', () => {
+      const callback = jest.fn();
+      touchControlManager.onTargetGesture(['slot-1', 'inventory'], GestureType.TAP, callback);
+
+      tapAt(200, 500);
+      touchControlManager.offTargetGesture(['slot-1', 'inventory'], GestureType.TAP, callback);
+      tapAt(200, 500);
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback.mock.calls[0][0].currentTarget.id).toBe('inventory');
+    });
+  });
+
   describe('Touch Event Handling', () => {
     it('should handle touch start events', () => {
       const touch: TouchPoint = {
@@ -156,6 +292,236 @@ describe('TouchControlManager', () => {
     });
   });
 
+  describe('Timed Gestures', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should dispatch long press before the touch ends', () => {
+      const callback = jest.fn();
+      touchControlManager.onGesture(GestureType.LONG_PRESS, callback);
+
+      touchControlManager.handleTouchStart({
+        x: 100,
+        y: 100,
+        timestamp: Date.now(),
+        identifier: 1,
+        pressure: 0.5
+      });
+      jest.advanceTimersByTime(500);
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback.mock.calls[0][0].type).toBe(GestureType.LONG_PRESS);
+    });
+
+    it('should fall back to long press until a touch reports pressure', () => {
+      const callback = jest.fn();
+      touchControlManager.updateConfig({
+        gestureConfig: { ...mockConfig.gestureConfig, forceTouchFallback: 'long_press' }
+      });
+      touchControlManager.onGesture(GestureType.FORCE_TOUCH, callback);
+      const pressAt = (pressure: number, identifier: number): TouchPoint => ({
+        x: 100,
+        y: 100,
+        timestamp: Date.now(),
+        identifier,
+        pressure
+      });
+
+      // An iPhone without 3D Touch reports no force
+      touchControlManager.handleTouchStart(pressAt(0, 1));
+      jest.advanceTimersByTime(500);
+      touchControlManager.handleTouchEnd(pressAt(0, 1));
+      expect(callback).toHaveBeenCalledTimes(1);
+
+      // A light touch of force 1 out of 6.67 doesn't fire, a hard one does
+      touchControlManager.handleTouchStart(pressAt(0.15, 2));
+      jest.advanceTimersByTime(500);
+      expect(callback).toHaveBeenCalledTimes(1);
+      touchControlManager.handleTouchMove(pressAt(0.9, 2));
+      expect(callback).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Custom Gesture Recognizers', () => {
+    class HorizontalDragRecognizer extends CustomGestureRecognizer {
+      protected onTouchStart(): void {}
+
+      protected onTouchMove(touch: TouchPoint, state: GestureState | null): void {
+        if (!state) return;
+
+        if (this.getState() === RecognizerState.POSSIBLE) {
+          if (Math.abs(state.deltaY) > 20) {
+            this.fail();
+          } else if (Math.abs(state.deltaX) > 20) {
+            this.begin();
+          }
+        } else {
+          this.change();
+        }
+      }
+
+      protected onTouchEnd(): void {}
+    }
+
+    const touchAt = (x: number, y: number, timestamp: number): TouchPoint => ({
+      x,
+      y,
+      timestamp,
+      identifier: 1,
+      pressure: 0.5
+    });
+
+    it('should dispatch custom gestures through onGesture', () => {
+      const callback = jest.fn();
+      touchControlManager.registerRecognizer(new HorizontalDragRecognizer('horizontal_drag'));
+      touchControlManager.onGesture('horizontal_drag', callback);
+      const now = Date.now();
+
+      touchControlManager.handleTouchStart(touchAt(100, 100, now));
+      touchControlManager.handleTouchMove(touchAt(130, 100, now + 50));
+      touchControlManager.handleTouchMove(touchAt(160, 100, now + 100));
+      touchControlManager.handleTouchEnd(touchAt(160, 100, now + 150));
+
+      const phases = callback.mock.calls.map(([event]: GestureEvent[]) => event.phase);
+      expect(phases).toEqual([GesturePhase.BEGAN, GesturePhase.CHANGED, GesturePhase.ENDED]);
+      expect(callback.mock.calls[0][0].type).toBe('horizontal_drag');
+    });
+
+    it('should not dispatch gestures of a failed recognizer', () => {
+      const callback = jest.fn();
+      const recognizer = new HorizontalDragRecognizer('horizontal_drag');
+      touchControlManager.registerRecognizer(recognizer);
+      touchControlManager.onGesture('horizontal_drag', callback);
+      const now = Date.now();
+
+      touchControlManager.handleTouchStart(touchAt(100, 100, now));
+      touchControlManager.handleTouchMove(touchAt(100, 150, now + 50));
+      touchControlManager.handleTouchMove(touchAt(150, 150, now + 100));
+      touchControlManager.handleTouchEnd(touchAt(150, 150, now + 150));
+
+      expect(callback).not.toHaveBeenCalled();
+      expect(recognizer.getState()).toBe(RecognizerState.FAILED);
+    });
+
+    it('should reject recognizers named after built-in gestures', () => {
+      expect(touchControlManager.registerRecognizer(new HorizontalDragRecognizer(GestureType.PAN))).toBe(false);
+      expect(touchControlManager.registerRecognizer(new HorizontalDragRecognizer('horizontal_drag'))).toBe(true);
+    });
+
+    it('should stop dispatching once unregistered', () => {
+      const callback = jest.fn();
+      touchControlManager.registerRecognizer(new HorizontalDragRecognizer('horizontal_drag'));
+      touchControlManager.onGesture('horizontal_drag', callback);
+      touchControlManager.unregisterRecognizer('horizontal_drag');
+      const now = Date.now();
+
+      touchControlManager.handleTouchStart(touchAt(100, 100, now));
+      touchControlManager.handleTouchMove(touchAt(160, 100, now + 50));
+      touchControlManager.handleTouchEnd(touchAt(160, 100, now + 100));
+
+      expect(callback).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Gesture Conflict Resolution', () => {
+    const touchAt = (x: number, y: number, timestamp: number): TouchPoint => ({
+      x,
+      y,
+      timestamp,
+      identifier: 1,
+      pressure: 0.5
+    });
+
+    const drag = (duration: number) => {
+      const now = Date.now();
+      touchControlManager.handleTouchStart(touchAt(100, 100, now));
+      touchControlManager.handleTouchMove(touchAt(160, 100, now + duration / 2));
+      touchControlManager.handleTouchEnd(touchAt(200, 100, now + duration));
+    };
+
+    const recordEvents = (gestures: GestureType[]) => {
+      const events: string[] = [];
+      gestures.forEach(gesture => {
+        touchControlManager.onGesture(gesture, event => {
+          events.push(event.phase ? `${event.type}:${event.phase}` : event.type);
+        });
+      });
+      return events;
+    };
+
+    it('should cancel a lower priority gesture in exclusive mode', () => {
+      touchControlManager.updateConfig({ exclusiveGestures: true });
+      touchControlManager.setGesturePriority(GestureType.SWIPE_RIGHT, 1);
+      const events = recordEvents([GestureType.PAN, GestureType.SWIPE_RIGHT]);
+
+      drag(100);
+
+      expect(events).toEqual([
+        `${GestureType.PAN}:${GesturePhase.BEGAN}`,
+        `${GestureType.PAN}:${GesturePhase.CANCELLED}`,
+        GestureType.SWIPE_RIGHT
+      ]);
+    });
+
+    it('should not let a tap held for a double tap defeat the drag after it', () => {
+      touchControlManager.updateConfig({
+        exclusiveGestures: true,
+        gestureConfig: { ...mockConfig.gestureConfig, doubleTapInterval: 300 }
+      });
+      const events = recordEvents([GestureType.TAP, GestureType.PAN]);
+      const now = Date.now();
+
+      touchControlManager.handleTouchStart(touchAt(100, 100, now));
+      touchControlManager.handleTouchEnd(touchAt(100, 100, now + 50));
+      touchControlManager.handleTouchStart(touchAt(100, 100, now + 150));
+      touchControlManager.handleTouchMove(touchAt(160, 100, now + 200));
+      touchControlManager.handleTouchEnd(touchAt(200, 100, now + 250));
+
+      expect(events).toEqual([
+        GestureType.TAP,
+        `${GestureType.PAN}:${GesturePhase.BEGAN}`,
+        `${GestureType.PAN}:${GesturePhase.ENDED}`
+      ]);
+    });
+
+    it('should deliver both gestures when simultaneous recognition is allowed', () => {
+      touchControlManager.updateConfig({ exclusiveGestures: true });
+      touchControlManager.recognizeSimultaneously(GestureType.PAN, GestureType.SWIPE_RIGHT);
+      const events = recordEvents([GestureType.PAN, GestureType.SWIPE_RIGHT]);
+
+      drag(100);
+
+      expect(events).toContain(GestureType.SWIPE_RIGHT);
+      expect(events).toContain(`${GestureType.PAN}:${GesturePhase.ENDED}`);
+    });
+
+    it('should release a gesture once the gesture it waits for fails', () => {
+      touchControlManager.requireFailureOf(GestureType.PAN, GestureType.SWIPE_RIGHT);
+      const events = recordEvents([GestureType.PAN, GestureType.SWIPE_RIGHT]);
+
+      drag(1000);
+
+      expect(events).toEqual([
+        `${GestureType.PAN}:${GesturePhase.BEGAN}`,
+        `${GestureType.PAN}:${GesturePhase.ENDED}`
+      ]);
+    });
+
+    it('should drop a gesture when the gesture it waits for is recognized', () => {
+      touchControlManager.requireFailureOf(GestureType.PAN, GestureType.SWIPE_RIGHT);
+      const events = recordEvents([GestureType.PAN, GestureType.SWIPE_RIGHT]);
+
+      drag(100);
+
+      expect(events).toEqual([GestureType.SWIPE_RIGHT]);
+    });
+  });
+
   describe('Configuration Management', () => {
     it('should update configuration', () => {
       const newConfig = {
@@ -183,6 +549,24 @@ describe('TouchControlManager', () => {
       expect(metrics).toHaveProperty('errorRate');
       expect(metrics).toHaveProperty('successRate');
     });
+
+    it('should count gestures whose callbacks throw as errors', () => {
+      jest.spyOn(console, 'error').mockImplementation();
+      const tap = (timestamp: number) => {
+        touchControlManager.handleTouchStart({ x: 100, y: 100, timestamp, identifier: 1, pressure: 0.5 });
+        touchControlManager.handleTouchEnd({ x: 100, y: 100, timestamp: timestamp + 50, identifier: 1, pressure: 0.5 });
+      };
+
+      tap(1000);
+      touchControlManager.onGesture(GestureType.TAP, () => {
+        throw new Error('Handler failed');
+      });
+      tap(2000);
+
+      expect(touchControlManager.getPerformanceMetrics().successRate).toBe(0.5);
+      expect(touchControlManager.getPerformanceMetrics().errorRate).toBe(0.5);
+      jest.restoreAllMocks();
+    });
   });
 
   describe('Accessibility', () => {
@@ -195,5 +579,16 @@ describe('TouchControlManager', () => {
       expect(status).toHaveProperty('reducedMotionEnabled');
       expect(status).toHaveProperty('largeTextEnabled');
     });
+
+    it('should map gestures to voice commands through the binding store', () => {
+      expect(touchControlManager.getBindingStore().getAction(GestureType.TAP)).toBe('activate');
+
+      const customManager = new TouchControlManager({
+        ...mockConfig,
+        gestureBindings: [{ action: 'select', gesture: GestureType.TAP }]
+      });
+      expect(customManager.getBindingStore().getAction(GestureType.TAP)).toBe('select');
+      customManager.destroy();
+    });
   });
 });
\ No newline at end of file
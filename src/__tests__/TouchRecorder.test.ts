@@ -0,0 +1,216 @@
+/**
+ * Tests for TouchRecorder, TouchReplayer and VirtualClock
+ */
+
+import { TouchControlManager } from '../core/TouchControlManager';
+import { TouchRecorder, TOUCH_RECORDING_VERSION } from '../core/TouchRecorder';
+import { TouchReplayer } from '../core/TouchReplayer';
+import { VirtualClock } from '../core/Clock';
+import { trigger } from 'react-native-haptic-feedback';
+import { TouchControlConfig, GestureType, TouchPoint } from '../types/TouchTypes';
+
+describe('TouchRecorder', () => {
+  let clock: VirtualClock;
+  let manager: TouchControlManager;
+  let recorder: TouchRecorder;
+
+  const config: TouchControlConfig = {
+    platform: 'android',
+    minTouchTargetSize: 44,
+    maxTouchTargetSize: 88,
+    spacingBetweenTargets: 8,
+    gestureConfig: {
+      minDistance: 10,
+      maxDistance: 1000,
+      minDuration: 100,
+      maxDuration: 2000,
+      velocityThreshold: 0.3,
+      scaleThreshold: 0.1,
+      rotationThreshold: 15,
+      doubleTapInterval: 300
+    },
+    accessibility: {
+      screenReaderEnabled: false,
+      voiceControlEnabled: false,
+      switchControlEnabled: false,
+      highContrastEnabled: false,
+      reducedMotionEnabled: false,
+      largeTextEnabled: false
+    },
+    performance: {
+      maxRecognitionTime: 100,
+      maxMemoryUsage: 50,
+      enableCaching: true,
+      enableOptimization: true
+    }
+  };
+
+  const touchAt = (x: number, y: number): TouchPoint => ({
+    x,
+    y,
+    timestamp: clock.now(),
+    identifier: 1,
+    pressure: 0.5
+  });
+
+  const tapAt = (x: number, y: number) => {
+    manager.handleTouchStart(touchAt(x, y));
+    clock.advanceBy(50);
+    manager.handleTouchEnd(touchAt(x, y));
+  };
+
+  beforeEach(() => {
+    clock = new VirtualClock(1000);
+    manager = new TouchControlManager(config, { clock });
+    manager.setViewportSize(400, 800);
+    recorder = new TouchRecorder({ clock });
+  });
+
+  afterEach(() => {
+    manager.destroy();
+  });
+
+  describe('Recording', () => {
+    it('should record every touch with the time it arrived', () => {
+      recorder.start(manager);
+      tapAt(100, 100);
+      clock.advanceBy(10);
+      const recording = recorder.stop()!;
+
+      expect(recording.version).toBe(TOUCH_RECORDING_VERSION);
+      expect(recording.viewport).toEqual({ width: 400, height: 800 });
+      expect(recording.config.gestureConfig.doubleTapInterval).toBe(300);
+      expect(recording.startTime).toBe(1000);
+      expect(recording.endTime).toBe(1060);
+      expect(recording.events).toEqual([
+        { type: 'start', time: 1000, touch: { x: 100, y: 100, timestamp: 1000, identifier: 1, pressure: 0.5 } },
+        { type: 'end', time: 1050, touch: { x: 100, y: 100, timestamp: 1050, identifier: 1, pressure: 0.5 } }
+      ]);
+    });
+
+    it('should stop recording touches once stopped', () => {
+      recorder.start(manager);
+      recorder.stop();
+      tapAt(100, 100);
+
+      expect(recorder.isRecording()).toBe(false);
+      expect(recorder.getRecording()!.events).toHaveLength(0);
+    });
+  });
+
+  describe('Replay', () => {
+    it('should reproduce the gestures of a recording', () => {
+      const liveEvents: string[] = [];
+      Object.values(GestureType).forEach(type => manager.onGesture(type, event => liveEvents.push(event.type)));
+
+      recorder.start(manager);
+      tapAt(100, 100);
+      clock.advanceBy(400);
+      tapAt(200, 200);
+      clock.advanceBy(100);
+      tapAt(202, 201);
+      manager.handleTouchStart(touchAt(300, 300));
+      clock.advanceBy(600);
+      manager.handleTouchEnd(touchAt(300, 300));
+      clock.advanceBy(400);
+      recorder.stop();
+
+      const replayer = TouchReplayer.fromJSON(recorder.toJSON()!)!;
+      const replayedEvents = replayer.replay().map(event => event.type);
+
+      expect(liveEvents).toEqual([GestureType.TAP, GestureType.DOUBLE_TAP, GestureType.LONG_PRESS]);
+      expect(replayedEvents).toEqual(liveEvents);
+    });
+
+    it('should resolve a tap recorded just before stopping', () => {
+      const liveEvents: string[] = [];
+      manager.onGesture(GestureType.TAP, event => liveEvents.push(event.type));
+
+      recorder.start(manager);
+      tapAt(100, 100);
+      const replayer = new TouchReplayer(recorder.stop()!);
+      clock.advanceBy(300);
+
+      expect(liveEvents).toEqual([GestureType.TAP]);
+      expect(replayer.replay().map(event => event.type)).toEqual(liveEvents);
+    });
+
+    it('should not play haptics while replaying', () => {
+      recorder.start(manager);
+      tapAt(100, 100);
+      clock.advanceBy(400);
+      const replayer = new TouchReplayer(recorder.stop()!);
+      (trigger as jest.Mock).mockClear();
+
+      expect(replayer.replay()).toHaveLength(1);
+      expect(trigger).not.toHaveBeenCalled();
+    });
+
+    it('should give the same result on every replay', () => {
+      recorder.start(manager);
+      tapAt(100, 100);
+      clock.advanceBy(500);
+      const replayer = new TouchReplayer(recorder.stop()!);
+
+      const first = replayer.replay();
+      const second = replayer.replay();
+
+      expect(first).toHaveLength(1);
+      expect(second).toEqual(first);
+      expect(first[0].timestamp).toBe(1050);
+    });
+
+    it('should let the setup register targets before replaying', () => {
+      recorder.start(manager);
+      tapAt(100, 100);
+      clock.advanceBy(500);
+      const replayer = new TouchReplayer(recorder.stop()!);
+
+      const events = replayer.replay({
+        setup: replayManager =>
+          replayManager.registerTouchTarget({ id: 'button', x: 80, y: 80, width: 44, height: 44, minSize: 44 })
+      });
+
+      expect(events[0].target?.id).toBe('button');
+    });
+
+    it('should reject recordings with an unsupported version', () => {
+      expect(TouchReplayer.fromJSON(JSON.stringify({ version: 99, events: [] }))).toBeNull();
+      expect(TouchReplayer.fromJSON('not json')).toBeNull();
+    });
+  });
+
+  describe('VirtualClock', () => {
+    it('should run due timers in order at their scheduled time', () => {
+      clock = new VirtualClock(1000);
+      const calls: string[] = [];
+      clock.setTimeout(() => calls.push(`b@${clock.now()}`), 200);
+      clock.setTimeout(() => calls.push(`a@${clock.now()}`), 100);
+      const cancelled = clock.setTimeout(() => calls.push('cancelled'), 150);
+      clock.clearTimeout(cancelled);
+
+      clock.advanceBy(150);
+      expect(calls).toEqual(['a@1100']);
+
+      clock.advanceTo(1300);
+      expect(calls).toEqual(['a@1100', 'b@1200']);
+      expect(clock.now()).toBe(1300);
+      expect(clock.getPendingTimerCount()).toBe(0);
+    });
+
+    it('should drive every timer of a manager', () => {
+      const onLongPress = jest.fn();
+      manager.onGesture(GestureType.LONG_PRESS, onLongPress);
+
+      manager.handleTouchStart(touchAt(100, 100));
+      clock.advanceBy(499);
+      expect(onLongPress).not.toHaveBeenCalled();
+      clock.advanceBy(1);
+      expect(onLongPress).toHaveBeenCalledTimes(1);
+
+      manager.handleTouchEnd(touchAt(100, 100));
+      manager.destroy();
+      expect(clock.getPendingTimerCount()).toBe(0);
+    });
+  });
+});
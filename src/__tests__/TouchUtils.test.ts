@@ -8,9 +8,12 @@ import {
   calculateVelocity,
   isTouchInTarget,
   findClosestTarget,
+  findTargetAtPoint,
+  getHitRect,
   validateTouchTargetSize,
   areTargetsTooClose,
   calculateGestureDirection,
+  calculateJoystickVector,
   normalizeTouchCoordinates,
   denormalizeTouchCoordinates,
   calculateGestureScale,
@@ -21,10 +24,11 @@ import {
   getOptimalTouchTargetSize,
   supportsHapticFeedback,
   supportsForceTouch,
+  normalizeTouchPressure,
   generateTouchTargetId,
   createTouchTargetFromBounds
 } from '../utils/TouchUtils';
-import { TouchPoint, TouchTarget, GestureState } from '../types/TouchTypes';
+import { TouchPoint, TouchTarget, GestureState, JoystickDirection } from '../types/TouchTypes';
 
 describe('TouchUtils', () => {
   describe('calculateDistance', () => {
@@ -147,6 +151,58 @@ describe('TouchUtils', () => {
     });
   });
 
+  describe('findTargetAtPoint', () => {
+    const target = (id: string, x: number, y: number, size: number, zIndex?: number): TouchTarget => ({
+      id,
+      x,
+      y,
+      width: size,
+      height: size,
+      minSize: size,
+      zIndex
+    });
+
+    it('should expand small targets to the minimum size', () => {
+      const hitRect = getHitRect(target('small', 100, 100, 20), 44);
+      expect(hitRect).toMatchObject({ x: 88, y: 88, width: 44, height: 44 });
+    });
+
+    it('should hit a small target within its expanded area', () => {
+      const touch: TouchPoint = { x: 95, y: 95, timestamp: 0, identifier: 1 };
+      expect(findTargetAtPoint(touch, [target('small', 100, 100, 20)], 44)?.id).toBe('small');
+      expect(findTargetAtPoint(touch, [target('small', 100, 100, 20)], 20)).toBeNull();
+    });
+
+    it('should prefer the target with the higher z-index', () => {
+      const touch: TouchPoint = { x: 60, y: 60, timestamp: 0, identifier: 1 };
+      const targets = [target('overlay', 50, 50, 50, 1), target('button', 50, 50, 50)];
+      expect(findTargetAtPoint(touch, targets)?.id).toBe('overlay');
+    });
+
+    it('should prefer the later target at the same z-index', () => {
+      const touch: TouchPoint = { x: 60, y: 60, timestamp: 0, identifier: 1 };
+      const targets = [target('background', 0, 0, 200), target('button', 50, 50, 50)];
+      expect(findTargetAtPoint(touch, targets)?.id).toBe('button');
+    });
+
+    it('should prefer a direct hit over another target\'s expanded area', () => {
+      const touch: TouchPoint = { x: 131, y: 110, timestamp: 0, identifier: 1 };
+      const targets = [target('right', 131, 100, 20), target('left', 100, 100, 20)];
+      expect(findTargetAtPoint(touch, targets)?.id).toBe('right');
+    });
+
+    it('should prefer a nested target over its parent', () => {
+      const touch: TouchPoint = { x: 60, y: 60, timestamp: 0, identifier: 1 };
+      const child = { ...target('child', 50, 50, 50), parentId: 'parent' };
+      expect(findTargetAtPoint(touch, [child, target('parent', 0, 0, 200)])?.id).toBe('child');
+    });
+
+    it('should return null when nothing is hit', () => {
+      const touch: TouchPoint = { x: 500, y: 500, timestamp: 0, identifier: 1 };
+      expect(findTargetAtPoint(touch, [target('small', 100, 100, 20)])).toBeNull();
+    });
+  });
+
   describe('validateTouchTargetSize', () => {
     it('should return true for valid target size', () => {
       const target: TouchTarget = {
@@ -251,6 +307,38 @@ describe('TouchUtils', () => {
     });
   });
 
+  describe('calculateJoystickVector', () => {
+    it('should ignore offsets inside the dead zone', () => {
+      const vector = calculateJoystickVector(10, 0, 60, 0.2);
+      expect(vector.magnitude).toBe(0);
+      expect(vector.direction).toBeNull();
+    });
+
+    it('should scale magnitude from the dead zone edge to the radius', () => {
+      expect(calculateJoystickVector(36, 0, 60, 0.2).magnitude).toBeCloseTo(0.5);
+      expect(calculateJoystickVector(200, 0, 60, 0.2).magnitude).toBe(1);
+    });
+
+    it('should keep analog angles without quantisation', () => {
+      const vector = calculateJoystickVector(60, 20, 60);
+      expect(vector.angle).toBeCloseTo(18.43, 1);
+      expect(vector.direction).toBe(JoystickDirection.RIGHT);
+    });
+
+    it('should snap to 8 directions', () => {
+      const vector = calculateJoystickVector(40, -35, 60, 0, 8);
+      expect(vector.direction).toBe(JoystickDirection.UP_RIGHT);
+      expect(vector.x).toBeCloseTo(-vector.y);
+    });
+
+    it('should snap to 4 directions', () => {
+      const vector = calculateJoystickVector(-40, -35, 60, 0, 4);
+      expect(vector.direction).toBe(JoystickDirection.LEFT);
+      expect(vector.y).toBeCloseTo(0);
+      expect(calculateJoystickVector(-10, 50, 60, 0, 4).direction).toBe(JoystickDirection.DOWN);
+    });
+  });
+
   describe('coordinate normalization', () => {
     it('should normalize touch coordinates', () => {
       const touch: TouchPoint = { x: 100, y: 200, timestamp: 0, identifier: 1 };
@@ -313,6 +401,9 @@ describe('TouchUtils', () => {
         velocityY: 0,
         scale: 1,
         rotation: 0,
+        centroidX: 0,
+        centroidY: 0,
+        pressure: 0,
         isActive: false,
         isRecognized: false
       };
@@ -331,6 +422,9 @@ describe('TouchUtils', () => {
         velocityY: 0,
         scale: 1,
         rotation: 0,
+        centroidX: 0,
+        centroidY: 0,
+        pressure: 0,
         isActive: false,
         isRecognized: false
       };
@@ -349,12 +443,38 @@ describe('TouchUtils', () => {
         velocityY: 0,
         scale: 1,
         rotation: 0,
+        centroidX: 0,
+        centroidY: 0,
+        pressure: 0,
         isActive: false,
         isRecognized: false
       };
 
       expect(isLongPressGesture(gestureState)).toBe(true);
     });
+
+    it('should measure durations against a time in the touch time base', () => {
+      const gestureState: GestureState = {
+        startTime: 5000,
+        startTouches: [],
+        currentTouches: [],
+        deltaX: 5,
+        deltaY: 5,
+        velocityX: 0,
+        velocityY: 0,
+        scale: 1,
+        rotation: 0,
+        centroidX: 0,
+        centroidY: 0,
+        pressure: 0,
+        isActive: false,
+        isRecognized: false
+      };
+
+      expect(isTapGesture(gestureState, 10, 500, 5200)).toBe(true);
+      expect(isLongPressGesture(gestureState, 500, 5200)).toBe(false);
+      expect(isLongPressGesture(gestureState, 500, 5600)).toBe(true);
+    });
   });
 
   describe('platform utilities', () => {
@@ -377,10 +497,25 @@ describe('TouchUtils', () => {
     });
 
     it('should check force touch support', () => {
-      expect(supportsForceTouch('ios')).toBe(true);
-      expect(supportsForceTouch('android')).toBe(false);
+      expect(supportsForceTouch('ios', 6.67)).toBe(true);
+      expect(supportsForceTouch('ios', 0, 0.15)).toBe(true);
+      expect(supportsForceTouch('ios')).toBe(false);
+      expect(supportsForceTouch('android', 0, 0.5)).toBe(false);
       expect(supportsForceTouch('web')).toBe(false);
     });
+
+    it('should normalise iOS force by the maximum possible force', () => {
+      // An average touch reports a force of 1 on a device whose maximum is 6.67
+      expect(normalizeTouchPressure(1, 6.67)).toBeCloseTo(0.15);
+      expect(normalizeTouchPressure(6, 6.67)).toBeCloseTo(0.9);
+      expect(normalizeTouchPressure(6.67, 6.67)).toBe(1);
+    });
+
+    it('should clamp pressure already reported from 0 to 1', () => {
+      expect(normalizeTouchPressure(0.4)).toBe(0.4);
+      expect(normalizeTouchPressure(1.2)).toBe(1);
+      expect(normalizeTouchPressure(undefined)).toBe(0);
+    });
   });
 
   describe('utility functions', () => {
@@ -220,6 +220,9 @@ global.testUtils = {
     velocityY: 0,
     scale: 1,
     rotation: 0,
+    centroidX: 0,
+    centroidY: 0,
+    pressure: 0,
     isActive: true,
     isRecognized: false,
   }),
@@ -0,0 +1,251 @@
+/**
+ * HUD Layout View
+ * Renders a HUD layout as touch targets, with an edit mode to move and resize buttons
+ */
+
+import React, { useRef, useEffect, useContext, useMemo, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  ViewStyle,
+  Dimensions,
+  PanResponder,
+  GestureResponderEvent,
+  PanResponderGestureState
+} from 'react-native';
+import { SafeAreaInsetsContext } from 'react-native-safe-area-context';
+import { TouchTarget } from './TouchTarget';
+import { TouchControlManager } from '../core/TouchControlManager';
+import { HudLayout } from '../core/HudLayout';
+import {
+  HudButtonLayout,
+  HudButtonRect,
+  SafeAreaInsets,
+  TargetGestureEvent
+} from '../types/TouchTypes';
+
+interface HudButtonProps {
+  text?: string;
+  children?: React.ReactNode;
+  onPress?: () => void;
+  onLongPress?: () => void;
+  onDoubleTap?: (event: TargetGestureEvent) => void;
+  onSwipe?: (event: TargetGestureEvent) => void;
+  accessibilityLabel?: string;
+  accessibilityHint?: string;
+  style?: ViewStyle;
+}
+
+interface HudLayoutViewProps {
+  layout: HudLayout;
+  buttons: Record<string, HudButtonProps>;
+  touchControlManager?: TouchControlManager;
+  editMode?: boolean;
+  persist?: boolean;
+  safeAreaInsets?: SafeAreaInsets;
+  onLayoutChange?: (buttons: HudButtonLayout[]) => void;
+  // Called when the layout can't be loaded or saved
+  onStorageError?: (error: unknown) => void;
+  style?: ViewStyle;
+}
+
+interface EditableHudButtonProps {
+  id: string;
+  layout: HudLayout;
+  rect: HudButtonRect;
+  editMode: boolean;
+  button: HudButtonProps;
+  touchControlManager?: TouchControlManager;
+}
+
+const NO_INSETS: SafeAreaInsets = { top: 0, right: 0, bottom: 0, left: 0 };
+const RESIZE_HANDLE_SIZE = 24;
+
+const EditableHudButton: React.FC<EditableHudButtonProps> = ({
+  id,
+  layout,
+  rect,
+  editMode,
+  button,
+  touchControlManager
+}) => {
+  const rectRef = useRef(rect);
+  const dragStartRef = useRef(rect);
+  rectRef.current = rect;
+
+  // Drag the button by its body
+  const movePanResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onPanResponderGrant: () => {
+        dragStartRef.current = rectRef.current;
+      },
+      onPanResponderMove: (_event: GestureResponderEvent, gesture: PanResponderGestureState) => {
+        const start = dragStartRef.current;
+        layout.moveButton(id, start.x + start.width / 2 + gesture.dx, start.y + start.height / 2 + gesture.dy);
+      }
+    })
+  ).current;
+
+  // Resize the button by dragging its corner handle
+  const resizePanResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onPanResponderGrant: () => {
+        dragStartRef.current = rectRef.current;
+      },
+      onPanResponderMove: (_event: GestureResponderEvent, gesture: PanResponderGestureState) => {
+        layout.resizeButton(id, dragStartRef.current.width + Math.max(gesture.dx, gesture.dy));
+      }
+    })
+  ).current;
+
+  const positionStyle: ViewStyle = {
+    left: rect.x,
+    top: rect.y,
+    width: rect.width,
+    height: rect.height
+  };
+
+  return (
+    <View
+      style={[styles.button, positionStyle, editMode && styles.editing]}
+      {...(editMode ? movePanResponder.panHandlers : {})}
+    >
+      <View style={styles.fill} pointerEvents={editMode ? 'none' : 'auto'}>
+        <TouchTarget
+          id={id}
+          text={button.text}
+          onPress={button.onPress}
+          onLongPress={button.onLongPress}
+          onDoubleTap={button.onDoubleTap}
+          onSwipe={button.onSwipe}
+          accessibilityLabel={button.accessibilityLabel}
+          accessibilityHint={button.accessibilityHint}
+          minSize={rect.width}
+          bounds={rect}
+          disabled={editMode}
+          style={StyleSheet.flatten([styles.fill, button.style])}
+          touchControlManager={touchControlManager}
+        >
+          {button.children}
+        </TouchTarget>
+      </View>
+      {editMode && (
+        <View
+          style={styles.resizeHandle}
+          accessibilityLabel={`Resize ${button.accessibilityLabel || button.text || id}`}
+          {...resizePanResponder.panHandlers}
+        />
+      )}
+    </View>
+  );
+};
+
+export const HudLayoutView: React.FC<HudLayoutViewProps> = ({
+  layout,
+  buttons,
+  touchControlManager,
+  editMode = false,
+  persist = true,
+  safeAreaInsets,
+  onLayoutChange,
+  onStorageError,
+  style
+}) => {
+  const contextInsets = useContext(SafeAreaInsetsContext);
+  // Keep the insets stable while their values don't change, so the viewport isn't reset every render
+  const { top, right, bottom, left } = safeAreaInsets || contextInsets || NO_INSETS;
+  const insets = useMemo(() => ({ top, right, bottom, left }), [top, right, bottom, left]);
+  const [buttonLayouts, setButtonLayouts] = useState<HudButtonLayout[]>(layout.getButtons());
+  const wasEditingRef = useRef(editMode);
+  // Read the error callback when storage fails, so a new callback doesn't reload the layout
+  const onStorageErrorRef = useRef(onStorageError);
+  onStorageErrorRef.current = onStorageError;
+
+  // Follow layout changes
+  useEffect(() => {
+    layout.setChangeListener(updatedButtons => {
+      setButtonLayouts(updatedButtons);
+      onLayoutChange?.(updatedButtons);
+    });
+
+    return () => layout.setChangeListener(null);
+  }, [layout, onLayoutChange]);
+
+  // Load the saved layout
+  useEffect(() => {
+    if (persist) {
+      layout.load().catch(error => onStorageErrorRef.current?.(error));
+    }
+  }, [layout, persist]);
+
+  // Keep buttons inside the safe area as the screen changes
+  useEffect(() => {
+    const { width, height } = Dimensions.get('window');
+    layout.setViewport(width, height, insets);
+
+    const subscription = Dimensions.addEventListener('change', ({ window }) => {
+      layout.setViewport(window.width, window.height, insets);
+    });
+
+    return () => subscription?.remove();
+  }, [layout, insets]);
+
+  // Save the layout when editing ends
+  useEffect(() => {
+    if (wasEditingRef.current && !editMode && persist) {
+      layout.save().catch(error => onStorageErrorRef.current?.(error));
+    }
+    wasEditingRef.current = editMode;
+  }, [layout, editMode, persist]);
+
+  return (
+    <View style={[StyleSheet.absoluteFill, style]} pointerEvents="box-none">
+      {buttonLayouts.map(buttonLayout => {
+        const rect = layout.getButtonRect(buttonLayout.id);
+        const button = buttons[buttonLayout.id];
+        if (!rect || !button) return null;
+
+        return (
+          <EditableHudButton
+            key={buttonLayout.id}
+            id={buttonLayout.id}
+            layout={layout}
+            rect={rect}
+            editMode={editMode}
+            button={button}
+            touchControlManager={touchControlManager}
+          />
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  button: {
+    position: 'absolute',
+  },
+  fill: {
+    width: '100%',
+    height: '100%',
+  },
+  editing: {
+    borderWidth: 2,
+    borderColor: 'rgba(255, 255, 255, 0.8)',
+    borderStyle: 'dashed',
+    borderRadius: 8,
+  },
+  resizeHandle: {
+    position: 'absolute',
+    right: -RESIZE_HANDLE_SIZE / 2,
+    bottom: -RESIZE_HANDLE_SIZE / 2,
+    width: RESIZE_HANDLE_SIZE,
+    height: RESIZE_HANDLE_SIZE,
+    borderRadius: RESIZE_HANDLE_SIZE / 2,
+    backgroundColor: 'rgba(255, 255, 255, 0.8)',
+  },
+});
+
+export default HudLayoutView;
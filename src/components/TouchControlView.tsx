@@ -3,7 +3,7 @@
  * React Native component that provides touch control functionality
  */
 
-import React, { useRef, useEffect, useCallback, useState } from 'react';
+import React, { useRef, useEffect, useCallback, useState, useMemo } from 'react';
 import {
   View,
   PanResponder,
@@ -11,9 +11,13 @@ import {
   StyleSheet,
   ViewStyle,
   AccessibilityInfo,
-  Platform
+  Platform,
+  GestureResponderEvent
 } from 'react-native';
 import { TouchControlManager } from '../core/TouchControlManager';
+import { FeedbackManager } from '../core/FeedbackManager';
+import { VisualFeedbackOverlay } from './VisualFeedbackOverlay';
+import { normalizeTouchPressure } from '../utils/TouchUtils';
 import { 
   TouchControlConfig, 
   TouchPoint, 
@@ -34,9 +38,53 @@ interface TouchControlViewProps {
   accessibilityLabel?: string;
   accessibilityHint?: string;
   accessibilityRole?: string;
+  // Draw ripples, trails and gesture indicators over the children
+  visualFeedback?: boolean;
   testID?: string;
 }
 
+// Default configuration
+const defaultConfig: TouchControlConfig = {
+  platform: Platform.OS as 'ios' | 'android' | 'web',
+  minTouchTargetSize: 44,
+  maxTouchTargetSize: 88,
+  spacingBetweenTargets: 8,
+  gestureConfig: {
+    minDistance: 10,
+    maxDistance: 1000,
+    minDuration: 100,
+    maxDuration: 2000,
+    velocityThreshold: 0.3,
+    scaleThreshold: 0.1,
+    rotationThreshold: 15,
+    doubleTapInterval: 300,
+    doubleTapSlop: 30,
+    longPressDuration: 500,
+    edgeInset: 20,
+    forceTouchThreshold: 0.75,
+    forceTouchReleaseThreshold: 0.5,
+    forceTouchFallback: 'none',
+    shapeMinScore: 0.8,
+    velocityWindow: 100,
+    velocityEstimation: 'linear',
+    flingDeceleration: 0.002
+  },
+  accessibility: {
+    screenReaderEnabled: false,
+    voiceControlEnabled: false,
+    switchControlEnabled: false,
+    highContrastEnabled: false,
+    reducedMotionEnabled: false,
+    largeTextEnabled: false
+  },
+  performance: {
+    maxRecognitionTime: 100,
+    maxMemoryUsage: 50,
+    enableCaching: true,
+    enableOptimization: true
+  }
+};
+
 export const TouchControlView: React.FC<TouchControlViewProps> = ({
   children,
   style,
@@ -48,60 +96,39 @@ export const TouchControlView: React.FC<TouchControlViewProps> = ({
   accessibilityLabel,
   accessibilityHint,
   accessibilityRole,
+  visualFeedback = true,
   testID
 }) => {
   const touchControlManagerRef = useRef<TouchControlManager | null>(null);
+  const activeTouchIdsRef = useRef<Set<number>>(new Set());
   const [isAccessibilityEnabled, setIsAccessibilityEnabled] = useState(false);
   const [screenDimensions, setScreenDimensions] = useState(Dimensions.get('window'));
+  const [feedbackManager, setFeedbackManager] = useState<FeedbackManager | null>(null);
 
-  // Default configuration
-  const defaultConfig: TouchControlConfig = {
-    platform: Platform.OS as 'ios' | 'android' | 'web',
-    minTouchTargetSize: 44,
-    maxTouchTargetSize: 88,
-    spacingBetweenTargets: 8,
-    gestureConfig: {
-      minDistance: 10,
-      maxDistance: 1000,
-      minDuration: 100,
-      maxDuration: 2000,
-      velocityThreshold: 0.3,
-      scaleThreshold: 0.1,
-      rotationThreshold: 15
-    },
-    accessibility: {
-      screenReaderEnabled: false,
-      voiceControlEnabled: false,
-      switchControlEnabled: false,
-      highContrastEnabled: false,
-      reducedMotionEnabled: false,
-      largeTextEnabled: false
-    },
-    performance: {
-      maxRecognitionTime: 100,
-      maxMemoryUsage: 50,
-      enableCaching: true,
-      enableOptimization: true
-    }
-  };
-
-  const finalConfig = { ...defaultConfig, ...config };
+  // Keep the manager, and any gesture in progress, across re-renders
+  const finalConfig = useMemo(() => ({ ...defaultConfig, ...config }), [config]);
+  const onGestureRef = useRef(onGesture);
+  onGestureRef.current = onGesture;
 
   // Initialize touch control manager
   useEffect(() => {
     touchControlManagerRef.current = new TouchControlManager(finalConfig);
+    setFeedbackManager(touchControlManagerRef.current.getFeedbackManager());
+
+    const { width, height } = Dimensions.get('window');
+    touchControlManagerRef.current.setViewportSize(width, height);
 
     // Set up gesture callbacks
-    if (onGesture) {
-      Object.values(GestureType).forEach(gestureType => {
-        touchControlManagerRef.current?.onGesture(gestureType, onGesture);
+    Object.values(GestureType).forEach(gestureType => {
+      touchControlManagerRef.current?.onGesture(gestureType, gestureEvent => {
+        onGestureRef.current?.(gestureEvent);
       });
-    }
+    });
 
     return () => {
       touchControlManagerRef.current?.destroy();
     };
-  }, [finalConfig, onGesture]);
+  }, [finalConfig]);
 
   // Check accessibility status
   useEffect(() => {
@@ -126,6 +153,7 @@ export const TouchControlView: React.FC<TouchControlViewProps> = ({
   useEffect(() => {
     const subscription = Dimensions.addEventListener('change', ({ window }) => {
       setScreenDimensions(window);
+      touchControlManagerRef.current?.setViewportSize(window.width, window.height);
     });
 
     return () => subscription?.remove();
@@ -133,12 +161,12 @@ export const TouchControlView: React.FC<TouchControlViewProps> = ({
 
   // Convert React Native touch event to TouchPoint
   const convertToTouchPoint = useCallback((event: any): TouchPoint => {
-    const { pageX, pageY, timestamp, force, identifier } = event.nativeEvent;
+    const { pageX, pageY, timestamp, force, maximumPossibleForce, identifier } = event.nativeEvent;
     return {
       x: pageX,
       y: pageY,
       timestamp: timestamp || Date.now(),
-      pressure: force || 0,
+      pressure: normalizeTouchPressure(force, maximumPossibleForce),
       identifier: identifier || 0
     };
   }, []);
@@ -152,6 +180,8 @@ export const TouchControlView: React.FC<TouchControlViewProps> = ({
       width: screenDimensions.width,
       height: screenDimensions.height,
       minSize: finalConfig.minTouchTargetSize,
+      // The view is the backdrop below every target placed inside it
+      zIndex: -1,
       accessibilityLabel,
       accessibilityHint,
       accessibilityRole
@@ -166,33 +196,59 @@ export const TouchControlView: React.FC<TouchControlViewProps> = ({
     }
   }, [createTouchTarget]);
 
+  // Convert every changed touch of a React Native event to TouchPoints
+  const convertToTouchPoints = useCallback((event: GestureResponderEvent): TouchPoint[] => {
+    const { changedTouches } = event.nativeEvent;
+    const nativeTouches = changedTouches?.length ? changedTouches : [event.nativeEvent];
+    return nativeTouches.map(nativeTouch => convertToTouchPoint({ nativeEvent: nativeTouch }));
+  }, [convertToTouchPoint]);
+
+  // Forward touches that went down, ignoring ones already reported
+  const startTouches = (event: GestureResponderEvent) => {
+    convertToTouchPoints(event).forEach(touch => {
+      if (activeTouchIdsRef.current.has(touch.identifier)) return;
+      activeTouchIdsRef.current.add(touch.identifier);
+      touchControlManagerRef.current?.handleTouchStart(touch);
+      onTouchStart?.(touch);
+    });
+  };
+
+  // Forward touches that lifted, ignoring ones already reported
+  const endTouches = (event: GestureResponderEvent) => {
+    convertToTouchPoints(event).forEach(touch => {
+      if (!activeTouchIdsRef.current.delete(touch.identifier)) return;
+      touchControlManagerRef.current?.handleTouchEnd(touch);
+      onTouchEnd?.(touch);
+    });
+  };
+
   // Pan responder for touch handling
   const panResponder = PanResponder.create({
     onStartShouldSetPanResponder: () => true,
     onMoveShouldSetPanResponder: () => true,
 
-    onPanResponderGrant: (event) => {
-      const touch = convertToTouchPoint(event);
-      touchControlManagerRef.current?.handleTouchStart(touch);
-      onTouchStart?.(touch);
-    },
+    onPanResponderGrant: startTouches,
+
+    // Additional fingers going down or lifting while the gesture continues
+    onPanResponderStart: startTouches,
+    onPanResponderEnd: endTouches,
 
     onPanResponderMove: (event) => {
-      const touch = convertToTouchPoint(event);
-      touchControlManagerRef.current?.handleTouchMove(touch);
-      onTouchMove?.(touch);
+      convertToTouchPoints(event).forEach(touch => {
+        touchControlManagerRef.current?.handleTouchMove(touch);
+        onTouchMove?.(touch);
+      });
     },
 
-    onPanResponderRelease: (event) => {
-      const touch = convertToTouchPoint(event);
-      touchControlManagerRef.current?.handleTouchEnd(touch);
-      onTouchEnd?.(touch);
-    },
+    onPanResponderRelease: endTouches,
 
     onPanResponderTerminate: (event) => {
-      const touch = convertToTouchPoint(event);
-      touchControlManagerRef.current?.handleTouchEnd(touch);
-      onTouchEnd?.(touch);
+      convertToTouchPoints(event).forEach(touch => {
+        activeTouchIdsRef.current.delete(touch.identifier);
+        touchControlManagerRef.current?.handleTouchCancel(touch);
+        onTouchEnd?.(touch);
+      });
+      activeTouchIdsRef.current.clear();
     }
   });
 
@@ -227,6 +283,12 @@ export const TouchControlView: React.FC<TouchControlViewProps> = ({
       testID={testID}
     >
       {children}
+      {visualFeedback && (
+        <VisualFeedbackOverlay
+          feedbackManager={feedbackManager}
+          reducedMotion={finalConfig.accessibility.reducedMotionEnabled}
+        />
+      )}
     </View>
   );
 };
@@ -13,10 +13,23 @@ import {
   TextStyle,
   AccessibilityInfo,
   Platform,
-  Animated
+  Animated,
+  LayoutChangeEvent
 } from 'react-native';
 import { TouchControlManager } from '../core/TouchControlManager';
-import { TouchTarget as TouchTargetType, TouchPoint } from '../types/TouchTypes';
+import {
+  TouchTarget as TouchTargetType,
+  TouchPoint,
+  GestureType,
+  TargetGestureEvent
+} from '../types/TouchTypes';
+
+const SWIPE_GESTURES = [
+  GestureType.SWIPE_LEFT,
+  GestureType.SWIPE_RIGHT,
+  GestureType.SWIPE_UP,
+  GestureType.SWIPE_DOWN
+];
 
 interface TouchTargetProps {
   id: string;
@@ -24,6 +37,10 @@ interface TouchTargetProps {
   onLongPress?: () => void;
   onPressIn?: () => void;
   onPressOut?: () => void;
+  onDoubleTap?: (event: TargetGestureEvent) => void;
+  onSwipe?: (event: TargetGestureEvent) => void;
+  parentId?: string;
+  bounds?: { x: number; y: number; width: number; height: number };
   style?: ViewStyle;
   textStyle?: TextStyle;
   children?: React.ReactNode;
@@ -45,6 +62,10 @@ export const TouchTarget: React.FC<TouchTargetProps> = ({
   onLongPress,
   onPressIn,
   onPressOut,
+  onDoubleTap,
+  onSwipe,
+  parentId,
+  bounds,
   style,
   textStyle,
   children,
@@ -61,6 +82,8 @@ export const TouchTarget: React.FC<TouchTargetProps> = ({
 }) => {
   const [isPressed, setIsPressed] = useState(false);
   const [isAccessibilityEnabled, setIsAccessibilityEnabled] = useState(false);
+  const [measuredBounds, setMeasuredBounds] = useState({ x: 0, y: 0, width: minSize, height: minSize });
+  const containerRef = useRef<View>(null);
   const scaleAnim = useRef(new Animated.Value(1)).current;
   const opacityAnim = useRef(new Animated.Value(1)).current;
 
@@ -83,16 +106,18 @@ export const TouchTarget: React.FC<TouchTargetProps> = ({
     return () => subscription?.remove();
   }, []);
 
-  // Register touch target with manager
+  // Register touch target with manager, at the given bounds or where it was laid out
+  const { x, y, width, height } = bounds || measuredBounds;
   useEffect(() => {
     if (touchControlManager) {
       const touchTarget: TouchTargetType = {
         id,
-        x: 0, // Will be updated when component mounts
-        y: 0,
-        width: minSize,
-        height: minSize,
+        x,
+        y,
+        width,
+        height,
         minSize,
+        parentId,
         accessibilityLabel: accessibilityLabel || text,
         accessibilityHint,
         accessibilityRole
@@ -104,7 +129,45 @@ export const TouchTarget: React.FC<TouchTargetProps> = ({
         touchControlManager.unregisterTouchTarget(id);
       };
     }
-  }, [touchControlManager, id, minSize, accessibilityLabel, accessibilityHint, accessibilityRole, text]);
+  }, [touchControlManager, id, x, y, width, height, minSize, parentId, accessibilityLabel, accessibilityHint, accessibilityRole, text]);
+
+  // Deliver double taps and swipes on this target
+  useEffect(() => {
+    if (!touchControlManager) return;
+
+    const handleDoubleTap = (event: TargetGestureEvent) => {
+      if (!disabled) onDoubleTap?.(event);
+    };
+    const handleSwipe = (event: TargetGestureEvent) => {
+      if (!disabled) onSwipe?.(event);
+    };
+
+    if (onDoubleTap) {
+      touchControlManager.onTargetGesture(id, GestureType.DOUBLE_TAP, handleDoubleTap);
+    }
+    if (onSwipe) {
+      SWIPE_GESTURES.forEach(gestureType => touchControlManager.onTargetGesture(id, gestureType, handleSwipe));
+    }
+
+    return () => {
+      touchControlManager.offTargetGesture(id, GestureType.DOUBLE_TAP, handleDoubleTap);
+      SWIPE_GESTURES.forEach(gestureType => touchControlManager.offTargetGesture(id, gestureType, handleSwipe));
+    };
+  }, [touchControlManager, id, disabled, onDoubleTap, onSwipe]);
+
+  // Measure window position so gestures can be hit-tested against this target
+  const handleLayout = useCallback((event: LayoutChangeEvent) => {
+    if (bounds) return;
+
+    const { layout } = event.nativeEvent;
+    if (containerRef.current?.measureInWindow) {
+      containerRef.current.measureInWindow((windowX, windowY) => {
+        setMeasuredBounds({ x: windowX, y: windowY, width: layout.width, height: layout.height });
+      });
+    } else {
+      setMeasuredBounds(current => ({ ...current, width: layout.width, height: layout.height }));
+    }
+  }, [bounds]);
 
   // Handle press in
   const handlePressIn = useCallback(() => {
@@ -224,6 +287,8 @@ export const TouchTarget: React.FC<TouchTargetProps> = ({
 
   return (
     <Animated.View
+      ref={containerRef}
+      onLayout={handleLayout}
       style={[
         getContainerStyle(),
         {
@@ -0,0 +1,226 @@
+/**
+ * Virtual Joystick Component
+ * On-screen joystick driven by pan gestures, for direction-based movement
+ */
+
+import React, { useRef, useEffect, useCallback, useState } from 'react';
+import { View, StyleSheet, ViewStyle, LayoutChangeEvent } from 'react-native';
+import { TouchControlView } from './TouchControlView';
+import { calculateJoystickVector } from '../utils/TouchUtils';
+import {
+  TouchControlConfig,
+  GestureEvent,
+  GestureType,
+  GesturePhase,
+  JoystickVector
+} from '../types/TouchTypes';
+
+interface VirtualJoystickProps {
+  mode?: 'fixed' | 'floating';
+  baseRadius?: number;
+  knobRadius?: number;
+  deadZone?: number;
+  directions?: 4 | 8;
+  repeatInterval?: number;
+  onMove?: (vector: JoystickVector) => void;
+  onRelease?: () => void;
+  style?: ViewStyle;
+  baseStyle?: ViewStyle;
+  knobStyle?: ViewStyle;
+  config?: Partial<TouchControlConfig>;
+  accessibilityLabel?: string;
+  testID?: string;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export const VirtualJoystick: React.FC<VirtualJoystickProps> = ({
+  mode = 'floating',
+  baseRadius = 60,
+  knobRadius = 25,
+  deadZone = 0.2,
+  directions,
+  repeatInterval = 0,
+  onMove,
+  onRelease,
+  style,
+  baseStyle,
+  knobStyle,
+  config,
+  accessibilityLabel = 'Movement joystick',
+  testID
+}) => {
+  const containerRef = useRef<View>(null);
+  const originRef = useRef<Point>({ x: 0, y: 0 });
+  const vectorRef = useRef<JoystickVector | null>(null);
+  const repeatTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const baseCenterRef = useRef<Point | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [baseCenter, setBaseCenter] = useState<Point | null>(null);
+  const [knobOffset, setKnobOffset] = useState<Point>({ x: 0, y: 0 });
+
+  // Center of the fixed base, in view coordinates
+  const getFixedCenter = useCallback((): Point => {
+    return { x: size.width / 2, y: size.height / 2 };
+  }, [size]);
+
+  // Measure window position to convert page coordinates into view coordinates
+  const handleLayout = useCallback((event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setSize({ width, height });
+    containerRef.current?.measureInWindow?.((x, y) => {
+      originRef.current = { x, y };
+    });
+  }, []);
+
+  // Stop re-emitting the held direction
+  const stopRepeat = useCallback(() => {
+    if (repeatTimerRef.current) {
+      clearInterval(repeatTimerRef.current);
+      repeatTimerRef.current = null;
+    }
+  }, []);
+
+  // Re-emit the held direction so adapters can keep stepping while the knob is still
+  const startRepeat = useCallback(() => {
+    if (repeatInterval <= 0 || repeatTimerRef.current) return;
+
+    repeatTimerRef.current = setInterval(() => {
+      if (vectorRef.current) {
+        onMove?.(vectorRef.current);
+      }
+    }, repeatInterval);
+  }, [repeatInterval, onMove]);
+
+  // Return the knob to the base and report release
+  const release = useCallback(() => {
+    stopRepeat();
+    setKnobOffset({ x: 0, y: 0 });
+    baseCenterRef.current = null;
+    if (mode === 'floating') {
+      setBaseCenter(null);
+    }
+
+    if (vectorRef.current) {
+      vectorRef.current = null;
+      onRelease?.();
+    }
+  }, [mode, onRelease, stopRepeat]);
+
+  // Follow pan gestures with the knob
+  const handleGesture = useCallback((gestureEvent: GestureEvent) => {
+    if (gestureEvent.type !== GestureType.PAN || !gestureEvent.phase) return;
+
+    if (gestureEvent.phase === GesturePhase.ENDED || gestureEvent.phase === GesturePhase.CANCELLED) {
+      release();
+      return;
+    }
+
+    const { startTouches, deltaX, deltaY } = gestureEvent.state;
+    const startTouch = startTouches[0];
+    const start = {
+      x: startTouch.x - originRef.current.x,
+      y: startTouch.y - originRef.current.y
+    };
+
+    // Read the base from a ref, since events can arrive before a re-render
+    let center = baseCenterRef.current;
+    if (gestureEvent.phase === GesturePhase.BEGAN) {
+      if (mode === 'floating') {
+        center = start;
+      } else {
+        center = getFixedCenter();
+        // A fixed joystick only responds to pans starting on its base
+        const startDistance = Math.sqrt(
+          Math.pow(start.x - center.x, 2) + Math.pow(start.y - center.y, 2)
+        );
+        if (startDistance > baseRadius) {
+          center = null;
+        }
+      }
+      baseCenterRef.current = center;
+      setBaseCenter(center);
+    }
+    if (!center) return;
+
+    // Offset of the finger from the base center, clamped to the base
+    const offsetX = start.x + deltaX - center.x;
+    const offsetY = start.y + deltaY - center.y;
+    const distance = Math.sqrt(offsetX * offsetX + offsetY * offsetY);
+    const clamp = distance > baseRadius ? baseRadius / distance : 1;
+    setKnobOffset({ x: offsetX * clamp, y: offsetY * clamp });
+
+    const vector = calculateJoystickVector(offsetX, offsetY, baseRadius, deadZone, directions);
+    vectorRef.current = vector;
+    onMove?.(vector);
+    startRepeat();
+  }, [mode, baseRadius, deadZone, directions, getFixedCenter, onMove, release, startRepeat]);
+
+  // Stop repeating when unmounted
+  useEffect(() => stopRepeat, [stopRepeat]);
+
+  const center = mode === 'fixed' ? baseCenter || getFixedCenter() : baseCenter;
+
+  return (
+    <View ref={containerRef} onLayout={handleLayout} style={[styles.container, style]} testID={testID}>
+      <TouchControlView
+        onGesture={handleGesture}
+        config={config}
+        accessibilityLabel={accessibilityLabel}
+        accessibilityRole="adjustable"
+      >
+        {center && (
+          <View
+            pointerEvents="none"
+            style={[
+              styles.base,
+              {
+                left: center.x - baseRadius,
+                top: center.y - baseRadius,
+                width: baseRadius * 2,
+                height: baseRadius * 2,
+                borderRadius: baseRadius
+              },
+              baseStyle
+            ]}
+          >
+            <View
+              style={[
+                styles.knob,
+                {
+                  left: baseRadius - knobRadius + knobOffset.x,
+                  top: baseRadius - knobRadius + knobOffset.y,
+                  width: knobRadius * 2,
+                  height: knobRadius * 2,
+                  borderRadius: knobRadius
+                },
+                knobStyle
+              ]}
+            />
+          </View>
+        )}
+      </TouchControlView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  base: {
+    position: 'absolute',
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    borderWidth: 2,
+    borderColor: 'rgba(255, 255, 255, 0.4)',
+  },
+  knob: {
+    position: 'absolute',
+    backgroundColor: 'rgba(255, 255, 255, 0.6)',
+  },
+});
+
+export default VirtualJoystick;
@@ -0,0 +1,332 @@
+/**
+ * Visual Feedback Overlay Component
+ * Draws touch feedback from a FeedbackManager above a touch control view
+ */
+
+import React, { useRef, useEffect, useCallback, useState } from 'react';
+import { View, Animated, Easing, StyleSheet, ViewStyle, LayoutChangeEvent } from 'react-native';
+import { FeedbackManager } from '../core/FeedbackManager';
+import { GesturePhase, VisualFeedback, VisualFeedbackType } from '../types/TouchTypes';
+
+interface VisualFeedbackOverlayProps {
+  feedbackManager: FeedbackManager | null;
+  // Fade feedback in place instead of animating its size and motion
+  reducedMotion?: boolean;
+  color?: string;
+  rippleRadius?: number;
+  trailLength?: number;
+  pressRadius?: number;
+  style?: ViewStyle;
+  testID?: string;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface Ripple extends Point {
+  id: number;
+}
+
+interface Indicator extends Point {
+  type: VisualFeedbackType;
+  scale: number;
+  rotation: number;
+}
+
+interface Press extends Point {
+  id: number;
+  duration: number;
+}
+
+const RIPPLE_DURATION = 350;
+const INDICATOR_RADIUS = 40;
+const PRESS_DOT_COUNT = 12;
+const DOT_SIZE = 6;
+
+interface RippleViewProps extends Ripple {
+  radius: number;
+  color: string;
+  reducedMotion: boolean;
+  onFinish: (id: number) => void;
+}
+
+/**
+ * A ripple that expands and fades once, then removes itself
+ */
+const RippleView: React.FC<RippleViewProps> = ({ id, x, y, radius, color, reducedMotion, onFinish }) => {
+  const progress = useRef(new Animated.Value(0)).current;
+
+  useEffect(() => {
+    const animation = Animated.timing(progress, {
+      toValue: 1,
+      duration: RIPPLE_DURATION,
+      easing: Easing.out(Easing.quad),
+      useNativeDriver: true
+    });
+    animation.start(() => onFinish(id));
+    return () => animation.stop();
+  }, [progress, id, onFinish]);
+
+  const scale = reducedMotion ? 1 : progress.interpolate({ inputRange: [0, 1], outputRange: [0.2, 1] });
+
+  return (
+    <Animated.View
+      style={[
+        styles.circle,
+        {
+          left: x - radius,
+          top: y - radius,
+          width: radius * 2,
+          height: radius * 2,
+          borderRadius: radius,
+          backgroundColor: color,
+          opacity: progress.interpolate({ inputRange: [0, 1], outputRange: [0.5, 0] }),
+          transform: [{ scale }]
+        }
+      ]}
+    />
+  );
+};
+
+interface PressRingProps extends Point {
+  duration: number;
+  radius: number;
+  color: string;
+  reducedMotion: boolean;
+}
+
+/**
+ * A ring of dots that fills in clockwise until the hold becomes a long press
+ */
+const PressRing: React.FC<PressRingProps> = ({ x, y, duration, radius, color, reducedMotion }) => {
+  const progress = useRef(new Animated.Value(0)).current;
+
+  useEffect(() => {
+    if (reducedMotion) return;
+
+    const animation = Animated.timing(progress, {
+      toValue: 1,
+      duration,
+      easing: Easing.linear,
+      useNativeDriver: true
+    });
+    animation.start();
+    return () => animation.stop();
+  }, [progress, duration, reducedMotion]);
+
+  const dots = [];
+  for (let index = 0; index < PRESS_DOT_COUNT; index++) {
+    const angle = (index / PRESS_DOT_COUNT) * Math.PI * 2 - Math.PI / 2;
+    const threshold = index / PRESS_DOT_COUNT;
+    // Under reduced motion the ring shows the hold without filling in
+    const opacity = reducedMotion ? 0.6 : progress.interpolate({
+      inputRange: [threshold, Math.min(1, threshold + 1 / PRESS_DOT_COUNT)],
+      outputRange: [0.15, 0.9],
+      extrapolate: 'clamp'
+    });
+
+    dots.push(
+      <Animated.View
+        key={index}
+        style={[
+          styles.dot,
+          {
+            left: x + Math.cos(angle) * radius - DOT_SIZE / 2,
+            top: y + Math.sin(angle) * radius - DOT_SIZE / 2,
+            backgroundColor: color,
+            opacity
+          }
+        ]}
+      />
+    );
+  }
+
+  return <>{dots}</>;
+};
+
+export const VisualFeedbackOverlay: React.FC<VisualFeedbackOverlayProps> = ({
+  feedbackManager,
+  reducedMotion = false,
+  color = 'rgba(255, 255, 255, 0.8)',
+  rippleRadius = 30,
+  trailLength = 12,
+  pressRadius = 36,
+  style,
+  testID
+}) => {
+  const containerRef = useRef<View>(null);
+  const originRef = useRef<Point>({ x: 0, y: 0 });
+  const nextIdRef = useRef(0);
+  const [ripples, setRipples] = useState<Ripple[]>([]);
+  const [trail, setTrail] = useState<Point[]>([]);
+  const [indicator, setIndicator] = useState<Indicator | null>(null);
+  const [press, setPress] = useState<Press | null>(null);
+
+  // Measure window position to convert page coordinates into view coordinates
+  const handleLayout = useCallback((_event: LayoutChangeEvent) => {
+    containerRef.current?.measureInWindow?.((x, y) => {
+      originRef.current = { x, y };
+    });
+  }, []);
+
+  const removeRipple = useCallback((id: number) => {
+    setRipples(current => current.filter(ripple => ripple.id !== id));
+  }, []);
+
+  // Draw feedback as the feedback manager reports it
+  const handleFeedback = useCallback((feedback: VisualFeedback) => {
+    const point = { x: feedback.x - originRef.current.x, y: feedback.y - originRef.current.y };
+    const isFinished = feedback.phase === GesturePhase.ENDED || feedback.phase === GesturePhase.CANCELLED;
+
+    // A tap or the start of another gesture means the hold won't become a long press
+    const isOtherGesture = feedback.type !== VisualFeedbackType.PRESS && feedback.phase === GesturePhase.BEGAN;
+    if (feedback.type === VisualFeedbackType.RIPPLE || isOtherGesture) {
+      setPress(null);
+    }
+
+    switch (feedback.type) {
+      case VisualFeedbackType.RIPPLE:
+        setRipples(current => [...current, { ...point, id: nextIdRef.current++ }]);
+        break;
+      case VisualFeedbackType.TRAIL:
+        if (isFinished) {
+          setTrail([]);
+        } else {
+          setTrail(current => (reducedMotion ? [point] : [...current, point].slice(-trailLength)));
+        }
+        break;
+      case VisualFeedbackType.PINCH:
+      case VisualFeedbackType.ROTATE:
+        if (isFinished) {
+          setIndicator(null);
+        } else {
+          setIndicator({
+            ...point,
+            type: feedback.type,
+            scale: feedback.scale ?? 1,
+            rotation: feedback.rotation ?? 0
+          });
+        }
+        break;
+      case VisualFeedbackType.PRESS:
+        if (feedback.phase === GesturePhase.BEGAN) {
+          setPress({ ...point, id: nextIdRef.current++, duration: feedback.duration ?? 0 });
+        } else if (feedback.phase === GesturePhase.ENDED) {
+          setPress(null);
+          setRipples(current => [...current, { ...point, id: nextIdRef.current++ }]);
+        } else {
+          setPress(null);
+        }
+        break;
+    }
+  }, [reducedMotion, trailLength]);
+
+  useEffect(() => {
+    feedbackManager?.setVisualFeedbackListener(handleFeedback);
+    return () => feedbackManager?.setVisualFeedbackListener(null);
+  }, [feedbackManager, handleFeedback]);
+
+  return (
+    <View
+      ref={containerRef}
+      onLayout={handleLayout}
+      pointerEvents="none"
+      style={[StyleSheet.absoluteFill, style]}
+      testID={testID}
+    >
+      {trail.map((point, index) => {
+        // Older points are smaller and fainter
+        const age = (index + 1) / trail.length;
+        const size = DOT_SIZE * 2 * age;
+        return (
+          <View
+            key={index}
+            style={[
+              styles.circle,
+              {
+                left: point.x - size / 2,
+                top: point.y - size / 2,
+                width: size,
+                height: size,
+                borderRadius: size / 2,
+                backgroundColor: color,
+                opacity: age * 0.7
+              }
+            ]}
+          />
+        );
+      })}
+
+      {indicator && (
+        <View
+          style={[
+            styles.indicator,
+            {
+              left: indicator.x - INDICATOR_RADIUS,
+              top: indicator.y - INDICATOR_RADIUS,
+              width: INDICATOR_RADIUS * 2,
+              height: INDICATOR_RADIUS * 2,
+              borderRadius: INDICATOR_RADIUS,
+              borderColor: color,
+              transform: [
+                { scale: indicator.type === VisualFeedbackType.PINCH ? indicator.scale : 1 },
+                { rotate: `${indicator.rotation}deg` }
+              ]
+            }
+          ]}
+        >
+          <View style={[styles.indicatorLine, { backgroundColor: color }]} />
+        </View>
+      )}
+
+      {press && (
+        <PressRing
+          key={press.id}
+          x={press.x}
+          y={press.y}
+          duration={press.duration}
+          radius={pressRadius}
+          color={color}
+          reducedMotion={reducedMotion}
+        />
+      )}
+
+      {ripples.map(ripple => (
+        <RippleView
+          key={ripple.id}
+          id={ripple.id}
+          x={ripple.x}
+          y={ripple.y}
+          radius={rippleRadius}
+          color={color}
+          reducedMotion={reducedMotion}
+          onFinish={removeRipple}
+        />
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  circle: {
+    position: 'absolute',
+  },
+  dot: {
+    position: 'absolute',
+    width: DOT_SIZE,
+    height: DOT_SIZE,
+    borderRadius: DOT_SIZE / 2,
+  },
+  indicator: {
+    position: 'absolute',
+    borderWidth: 2,
+    justifyContent: 'center',
+  },
+  indicatorLine: {
+    height: 2,
+  },
+});
+
+export default VisualFeedbackOverlay;
@@ -8,8 +8,10 @@ import {
   TouchPoint, 
   TouchTarget,
   GestureEvent,
-  GestureType
+  GestureType,
+  GestureName
 } from '../types/TouchTypes';
+import { GestureBindingStore, defaultGestureBindings, DEFAULT_BINDING_NAMESPACE } from './GestureBindingStore';
 
 export class AccessibilityManager {
   private config: AccessibilityConfig;
@@ -20,10 +22,15 @@ export class AccessibilityManager {
   private reducedMotionEnabled: boolean = false;
   private largeTextEnabled: boolean = false;
   private currentFocusTarget: TouchTarget | null = null;
-  private gestureAnnouncements: Map<GestureType, string> = new Map();
+  private gestureAnnouncements: Map<GestureName, string> = new Map();
+  private bindingStore: GestureBindingStore;
 
-  constructor(config: AccessibilityConfig) {
+  constructor(
+    config: AccessibilityConfig,
+    bindingStore: GestureBindingStore = new GestureBindingStore(defaultGestureBindings)
+  ) {
     this.config = config;
+    this.bindingStore = bindingStore;
     this.initializeAccessibilityFeatures();
     this.initializeGestureAnnouncements();
   }
@@ -75,6 +82,9 @@ export class AccessibilityManager {
     this.gestureAnnouncements.set(GestureType.PAN, 'Panned');
     this.gestureAnnouncements.set(GestureType.PINCH, 'Pinched');
     this.gestureAnnouncements.set(GestureType.ROTATE, 'Rotated');
+    this.gestureAnnouncements.set(GestureType.EDGE_SWIPE, 'Swiped from edge');
+    this.gestureAnnouncements.set(GestureType.FORCE_TOUCH, 'Pressed firmly');
+    this.gestureAnnouncements.set(GestureType.SHAPE, 'Drew shape');
   }
 
   /**
@@ -147,27 +157,18 @@ export class AccessibilityManager {
    */
   private handleVoiceControlGesture(gestureEvent: GestureEvent): void {
     // Map gestures to voice commands
-    const voiceCommand = this.getVoiceCommandForGesture(gestureEvent.type);
+    const voiceCommand = this.getVoiceCommandForGesture(gestureEvent.type, gestureEvent.target?.id);
     if (voiceCommand) {
       this.executeVoiceCommand(voiceCommand);
     }
   }
 
   /**
-   * Get voice command for gesture type
+   * Get voice command for gesture type from the gesture bindings, leaving
+   * out actions other consumers added to the store
    */
-  private getVoiceCommandForGesture(gestureType: GestureType): string | null {
-    const voiceCommands: Map<GestureType, string> = new Map([
-      [GestureType.TAP, 'activate'],
-      [GestureType.DOUBLE_TAP, 'double activate'],
-      [GestureType.LONG_PRESS, 'long activate'],
-      [GestureType.SWIPE_LEFT, 'swipe left'],
-      [GestureType.SWIPE_RIGHT, 'swipe right'],
-      [GestureType.SWIPE_UP, 'swipe up'],
-      [GestureType.SWIPE_DOWN, 'swipe down']
-    ]);
-
-    return voiceCommands.get(gestureType) || null;
+  private getVoiceCommandForGesture(gestureType: GestureName, targetId?: string): string | null {
+    return this.bindingStore.getAction(gestureType, targetId, DEFAULT_BINDING_NAMESPACE);
   }
 
   /**
@@ -0,0 +1,150 @@
+/**
+ * Audio Backend
+ * Loads and plays sound files
+ */
+
+import Sound from 'react-native-sound';
+import { AudioBackend, LoadedSound } from '../types/TouchTypes';
+
+// iOS audio session categories accepted by react-native-sound
+type AudioSessionCategory = Parameters<typeof Sound.setCategory>[0];
+
+interface NativeAudioBackendOptions {
+  // Directory of the sound files; defaults to the app bundle
+  basePath?: string;
+  extension?: string;
+  // Audio session category to set before the first sound loads; the app's category is left alone by default
+  category?: AudioSessionCategory;
+  // Whether the category mixes with other apps' audio
+  mixWithOthers?: boolean;
+}
+
+interface FakeAudioBackendOptions {
+  // Files that fail to load, as if missing from the bundle
+  missingFiles?: string[];
+}
+
+interface FakePlayback {
+  file: string;
+  volume: number;
+}
+
+/**
+ * Plays sounds bundled with the app through react-native-sound
+ */
+export class NativeAudioBackend implements AudioBackend {
+  private basePath?: string;
+  private extension: string;
+  private category?: AudioSessionCategory;
+  private mixWithOthers: boolean;
+  private isSessionConfigured: boolean = false;
+
+  constructor(options: NativeAudioBackendOptions = {}) {
+    this.basePath = options.basePath;
+    this.extension = options.extension || 'mp3';
+    this.category = options.category;
+    this.mixWithOthers = options.mixWithOthers ?? false;
+  }
+
+  /**
+   * Load a sound file, rejecting if it can't be played
+   */
+  public load(file: string): Promise<LoadedSound> {
+    return new Promise((resolve, reject) => {
+      if (this.category && !this.isSessionConfigured) {
+        Sound.setCategory(this.category, this.mixWithOthers);
+        this.isSessionConfigured = true;
+      }
+
+      const sound: Sound = new Sound(`${file}.${this.extension}`, this.basePath ?? Sound.MAIN_BUNDLE, error => {
+        if (error) {
+          reject(error);
+          return;
+        }
+
+        resolve({
+          play: (volume, onEnd) => {
+            sound.setVolume(volume);
+            sound.play(() => onEnd());
+          },
+          stop: () => {
+            sound.stop();
+          },
+          release: () => {
+            sound.release();
+          }
+        });
+      });
+    });
+  }
+}
+
+/**
+ * Loads and plays sounds in memory, so tests can assert which sounds played
+ * and end them when they like
+ */
+export class FakeAudioBackend implements AudioBackend {
+  private missingFiles: Set<string>;
+  private loadedFiles: string[] = [];
+  private played: FakePlayback[] = [];
+  private playing: Map<string, () => void> = new Map();
+
+  constructor(options: FakeAudioBackendOptions = {}) {
+    this.missingFiles = new Set(options.missingFiles || []);
+  }
+
+  /**
+   * Load a sound file, rejecting missing files
+   */
+  public load(file: string): Promise<LoadedSound> {
+    if (this.missingFiles.has(file)) {
+      return Promise.reject(new Error(`Sound file ${file} not found`));
+    }
+
+    this.loadedFiles.push(file);
+    return Promise.resolve({
+      play: (volume, onEnd) => {
+        this.played.push({ file, volume });
+        this.playing.set(file, onEnd);
+      },
+      stop: () => {
+        this.playing.delete(file);
+      },
+      release: () => {
+        this.playing.delete(file);
+      }
+    });
+  }
+
+  /**
+   * Get the files loaded so far
+   */
+  public getLoadedFiles(): string[] {
+    return [...this.loadedFiles];
+  }
+
+  /**
+   * Get the sounds played so far, oldest first
+   */
+  public getPlayed(): FakePlayback[] {
+    return this.played.map(playback => ({ ...playback }));
+  }
+
+  /**
+   * Get the files playing now
+   */
+  public getPlaying(): string[] {
+    return Array.from(this.playing.keys());
+  }
+
+  /**
+   * End playback of a file, as if it played to the end
+   */
+  public finish(file: string): void {
+    const onEnd = this.playing.get(file);
+    if (onEnd) {
+      this.playing.delete(file);
+      onEnd();
+    }
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Clock
+ * System clock and a virtual clock whose time only moves when advanced
+ */
+
+import { Clock, ClockTimer } from '../types/TouchTypes';
+
+interface VirtualTimer {
+  id: number;
+  time: number;
+  callback: () => void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delay) => setTimeout(callback, delay),
+  clearTimeout: timer => clearTimeout(timer as ReturnType<typeof setTimeout>)
+};
+
+export class VirtualClock implements Clock {
+  private time: number;
+  private timers: VirtualTimer[] = [];
+  private nextTimerId: number = 1;
+
+  constructor(startTime: number = 0) {
+    this.time = startTime;
+  }
+
+  /**
+   * Get the virtual time
+   */
+  public now(): number {
+    return this.time;
+  }
+
+  /**
+   * Schedule a callback once the virtual time has advanced by `delay`
+   */
+  public setTimeout(callback: () => void, delay: number): ClockTimer {
+    const timer = { id: this.nextTimerId++, time: this.time + Math.max(0, delay), callback };
+    this.timers.push(timer);
+    return timer.id;
+  }
+
+  /**
+   * Cancel a scheduled callback
+   */
+  public clearTimeout(timer: ClockTimer): void {
+    this.timers = this.timers.filter(candidate => candidate.id !== timer);
+  }
+
+  /**
+   * Move time forward to `time`, running due callbacks in order at their own time
+   */
+  public advanceTo(time: number): void {
+    let timer = this.nextDueTimer(time);
+    while (timer) {
+      this.timers = this.timers.filter(candidate => candidate !== timer);
+      this.time = Math.max(this.time, timer.time);
+      timer.callback();
+      timer = this.nextDueTimer(time);
+    }
+
+    this.time = Math.max(this.time, time);
+  }
+
+  /**
+   * Move time forward by `duration` milliseconds
+   */
+  public advanceBy(duration: number): void {
+    this.advanceTo(this.time + duration);
+  }
+
+  /**
+   * Get the number of scheduled callbacks
+   */
+  public getPendingTimerCount(): number {
+    return this.timers.length;
+  }
+
+  /**
+   * Get the earliest callback due by `time`; callbacks due together run in scheduling order
+   */
+  private nextDueTimer(time: number): VirtualTimer | null {
+    let next: VirtualTimer | null = null;
+    for (const timer of this.timers) {
+      if (timer.time <= time && (!next || timer.time < next.time)) {
+        next = timer;
+      }
+    }
+    return next;
+  }
+}
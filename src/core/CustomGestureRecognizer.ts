@@ -0,0 +1,213 @@
+/**
+ * Custom Gesture Recognizer
+ * Base class for app-defined gestures dispatched alongside the built-in ones
+ */
+
+import { 
+  TouchPoint, 
+  GestureState, 
+  GestureEvent, 
+  GesturePhase,
+  RecognizerState
+} from '../types/TouchTypes';
+
+export abstract class CustomGestureRecognizer {
+  public readonly name: string;
+  private state: RecognizerState = RecognizerState.POSSIBLE;
+  private gestureState: GestureState | null = null;
+  private gestureListener: ((event: GestureEvent) => void) | null = null;
+  // Timestamp of the latest touch, the time base of every gesture event
+  private lastTimestamp: number = 0;
+
+  constructor(name: string) {
+    this.name = name;
+  }
+
+  /**
+   * Touch hooks implemented by subclasses. The shared gesture state carries
+   * deltas, velocity, scale and rotation computed by the built-in recognizer.
+   */
+  protected abstract onTouchStart(touch: TouchPoint, state: GestureState | null): void;
+  protected abstract onTouchMove(touch: TouchPoint, state: GestureState | null): void;
+  protected abstract onTouchEnd(touch: TouchPoint, state: GestureState | null): void;
+
+  /**
+   * Clear subclass state before the next gesture
+   */
+  protected onReset(): void {}
+
+  /**
+   * Handle touch start event
+   */
+  public handleTouchStart(touch: TouchPoint, state: GestureState | null): void {
+    this.gestureState = state;
+    this.lastTimestamp = touch.timestamp;
+    if (this.isTracking()) {
+      this.onTouchStart(touch, state);
+    }
+  }
+
+  /**
+   * Handle touch move event
+   */
+  public handleTouchMove(touch: TouchPoint, state: GestureState | null): void {
+    this.gestureState = state;
+    this.lastTimestamp = touch.timestamp;
+    if (this.isTracking()) {
+      this.onTouchMove(touch, state);
+    }
+  }
+
+  /**
+   * Handle touch end event
+   */
+  public handleTouchEnd(touch: TouchPoint, state: GestureState | null): void {
+    this.gestureState = state;
+    this.lastTimestamp = touch.timestamp;
+    if (this.isTracking()) {
+      this.onTouchEnd(touch, state);
+    }
+  }
+
+  /**
+   * Handle touch cancel event
+   */
+  public handleTouchCancel(touch?: TouchPoint): void {
+    if (touch) {
+      this.lastTimestamp = touch.timestamp;
+    }
+    this.finishGesture(true);
+  }
+
+  /**
+   * Settle the state machine once every finger has lifted: a gesture that is
+   * still possible has failed, one still in progress is cancelled
+   */
+  public finishGesture(cancelled: boolean = false): void {
+    if (this.state === RecognizerState.POSSIBLE) {
+      this.fail();
+    } else if (this.state === RecognizerState.BEGAN || this.state === RecognizerState.CHANGED) {
+      if (cancelled) {
+        this.cancel();
+      } else {
+        this.end();
+      }
+    }
+  }
+
+  /**
+   * Begin a continuous gesture
+   */
+  protected begin(): boolean {
+    return this.transition(RecognizerState.BEGAN, [RecognizerState.POSSIBLE], GesturePhase.BEGAN);
+  }
+
+  /**
+   * Report a change of a continuous gesture
+   */
+  protected change(): boolean {
+    return this.transition(
+      RecognizerState.CHANGED,
+      [RecognizerState.BEGAN, RecognizerState.CHANGED],
+      GesturePhase.CHANGED
+    );
+  }
+
+  /**
+   * End a continuous gesture
+   */
+  protected end(): boolean {
+    return this.transition(
+      RecognizerState.ENDED,
+      [RecognizerState.BEGAN, RecognizerState.CHANGED],
+      GesturePhase.ENDED
+    );
+  }
+
+  /**
+   * Recognize a discrete gesture
+   */
+  protected recognize(): boolean {
+    return this.transition(RecognizerState.RECOGNIZED, [RecognizerState.POSSIBLE]);
+  }
+
+  /**
+   * Give up on the gesture until every finger has lifted
+   */
+  protected fail(): boolean {
+    return this.transition(RecognizerState.FAILED, [RecognizerState.POSSIBLE]);
+  }
+
+  /**
+   * Cancel a continuous gesture
+   */
+  protected cancel(): boolean {
+    return this.transition(
+      RecognizerState.CANCELLED,
+      [RecognizerState.BEGAN, RecognizerState.CHANGED],
+      GesturePhase.CANCELLED
+    );
+  }
+
+  /**
+   * Move to a new state and emit the matching gesture event. Returns false,
+   * leaving the state as it is, if the current state can't move to it.
+   */
+  private transition(
+    nextState: RecognizerState,
+    allowedStates: RecognizerState[],
+    phase?: GesturePhase
+  ): boolean {
+    if (!allowedStates.includes(this.state)) return false;
+
+    this.state = nextState;
+    if (nextState === RecognizerState.FAILED || !this.gestureState) return true;
+
+    const gestureEvent: GestureEvent = {
+      type: this.name,
+      state: { ...this.gestureState },
+      timestamp: this.lastTimestamp
+    };
+
+    if (phase) {
+      gestureEvent.phase = phase;
+    }
+
+    this.gestureListener?.(gestureEvent);
+    return true;
+  }
+
+  /**
+   * Check if the recognizer still consumes touches
+   */
+  private isTracking(): boolean {
+    return (
+      this.state === RecognizerState.POSSIBLE ||
+      this.state === RecognizerState.BEGAN ||
+      this.state === RecognizerState.CHANGED
+    );
+  }
+
+  /**
+   * Register listener for recognized gestures
+   */
+  public setGestureListener(listener: ((event: GestureEvent) => void) | null): void {
+    this.gestureListener = listener;
+  }
+
+  /**
+   * Get current recognizer state
+   */
+  public getState(): RecognizerState {
+    return this.state;
+  }
+
+  /**
+   * Reset the state machine for the next gesture
+   */
+  public reset(): void {
+    this.state = RecognizerState.POSSIBLE;
+    this.gestureState = null;
+    this.onReset();
+  }
+}
@@ -5,18 +5,63 @@
 
 import { 
   TouchFeedbackType, 
-  GestureEvent, 
-  GestureState 
+  HapticType,
+  HapticBackend,
+  AudioType,
+  TouchControlConfig,
+  TouchPoint,
+  GesturePhase,
+  VisualFeedback,
+  VisualFeedbackType,
+  HapticSequence,
+  Clock,
+  FeedbackPriority,
+  FeedbackData
 } from '../types/TouchTypes';
+import { NativeHapticBackend, getHapticPattern } from './HapticBackend';
+import { HapticSequencePlayer } from './HapticSequencePlayer';
+import { HapticSequenceRegistry } from './HapticSequenceRegistry';
+import { FeedbackScheduler } from './FeedbackScheduler';
+import { SoundBank } from './SoundBank';
+
+// Feedback types used to live in this module
+export { HapticType, AudioType };
+
+interface FeedbackManagerOptions {
+  hapticBackend?: HapticBackend;
+  soundBank?: SoundBank;
+  hapticSequences?: HapticSequenceRegistry;
+  scheduler?: FeedbackScheduler;
+  // Clock that times haptic sequences and the default scheduler
+  clock?: Clock;
+  // Platform whose haptics to play; defaults to the running platform
+  platform?: TouchControlConfig['platform'];
+}
 
 export class FeedbackManager {
+  private hapticBackend: HapticBackend;
+  private soundBank: SoundBank;
+  private hapticSequences: HapticSequenceRegistry;
+  private sequencePlayer: HapticSequencePlayer;
+  private scheduler: FeedbackScheduler;
+  private platform?: TouchControlConfig['platform'];
   private hapticEnabled: boolean = true;
   private audioEnabled: boolean = true;
   private visualEnabled: boolean = true;
   private feedbackIntensity: number = 1.0; // 0.0 to 1.0
   private customFeedbackCallbacks: Map<TouchFeedbackType, Function[]> = new Map();
+  private visualFeedbackListener: ((feedback: VisualFeedback) => void) | null = null;
 
-  constructor() {
+  constructor(options: FeedbackManagerOptions = {}) {
+    this.hapticBackend = options.hapticBackend || new NativeHapticBackend();
+    this.soundBank = options.soundBank || new SoundBank();
+    this.hapticSequences = options.hapticSequences || new HapticSequenceRegistry();
+    this.sequencePlayer = new HapticSequencePlayer(
+      (hapticType, intensity) => this.triggerHapticFeedback(hapticType, intensity),
+      options.clock
+    );
+    this.scheduler = options.scheduler || new FeedbackScheduler({ clock: options.clock });
+    this.platform = options.platform;
     this.initializeFeedbackCallbacks();
   }
 
@@ -30,12 +75,36 @@ export class FeedbackManager {
   }
 
   /**
-   * Provide feedback for touch interaction
+   * Provide feedback for touch interaction, once the scheduler allows it.
+   * The priority defaults to one based on the data.
    */
   public provideFeedback(
     feedbackType: TouchFeedbackType, 
-    data: GestureEvent | GestureState | any
+    data: FeedbackData,
+    priority: FeedbackPriority = this.getFeedbackPriority(data)
   ): void {
+    // Feedback that would deliver nothing shouldn't spend the scheduler's tokens and budget
+    if (!this.hasFeedbackFor(feedbackType, data)) return;
+
+    this.scheduler.schedule(feedbackType, this.getFeedbackKey(data), priority, () => {
+      this.deliverFeedback(feedbackType, data);
+    });
+  }
+
+  /**
+   * Check if feedback would be drawn or reach a custom callback. Gesture
+   * states only reach visual callbacks, as they draw nothing.
+   */
+  private hasFeedbackFor(feedbackType: TouchFeedbackType, data: FeedbackData): boolean {
+    if (feedbackType !== TouchFeedbackType.VISUAL) return true;
+    if (this.customFeedbackCallbacks.get(feedbackType)?.length) return true;
+    return this.visualEnabled && this.visualFeedbackListener !== null && this.getVisualFeedbackForData(data) !== null;
+  }
+
+  /**
+   * Deliver feedback and run custom callbacks
+   */
+  private deliverFeedback(feedbackType: TouchFeedbackType, data: FeedbackData): void {
     switch (feedbackType) {
       case TouchFeedbackType.VISUAL:
         this.provideVisualFeedback(data);
@@ -51,39 +120,163 @@ export class FeedbackManager {
     // Execute custom callbacks
     const callbacks = this.customFeedbackCallbacks.get(feedbackType) || [];
     callbacks.forEach(callback => {
-      try {
-        callback(data);
-      } catch (error) {
-        console.error(`Error in feedback callback for ${feedbackType}:`, error);
-      }
+      this.runSafely(`feedback callback for ${feedbackType}`, () => callback(data));
     });
   }
 
+  /**
+   * Run a callback, listener or backend call, reporting what it throws so
+   * that the rest of the feedback is still delivered
+   */
+  private runSafely(description: string, action: () => void): void {
+    try {
+      action();
+    } catch (error) {
+      this.reportError(description, error);
+    }
+  }
+
+  /**
+   * Report an error from a callback, listener or backend
+   */
+  private reportError(description: string, error: unknown): void {
+    console.error(`Error in ${description}:`, error);
+  }
+
+  /**
+   * Get the priority of feedback: errors beat warnings and successes, which
+   * beat gestures, which beat gesture updates
+   */
+  private getFeedbackPriority(data: FeedbackData): FeedbackPriority {
+    if (!('type' in data) || data.phase === GesturePhase.CHANGED) {
+      return FeedbackPriority.LOW;
+    }
+
+    switch (data.type) {
+      case 'error':
+        return FeedbackPriority.CRITICAL;
+      case 'warning':
+      case 'success':
+        return FeedbackPriority.HIGH;
+      default:
+        return FeedbackPriority.NORMAL;
+    }
+  }
+
+  /**
+   * Get the key under which repeats of the same feedback coalesce
+   */
+  private getFeedbackKey(data: FeedbackData): string {
+    if (!('type' in data)) return 'state';
+    return data.phase ? `${data.type}:${data.phase}` : String(data.type);
+  }
+
   /**
    * Provide visual feedback
    */
-  private provideVisualFeedback(data: GestureEvent | GestureState | any): void {
-    if (!this.visualEnabled) return;
+  private provideVisualFeedback(data: FeedbackData): void {
+    const feedback = this.getVisualFeedbackForData(data);
+    if (feedback) {
+      this.emitVisualFeedback(feedback);
+    }
+  }
 
-    // This would typically trigger visual animations or effects
-    // For now, we'll log the visual feedback
-    console.log('Visual feedback:', data);
+  /**
+   * Provide feedback while a finger is held, before it becomes a long press
+   */
+  public providePressFeedback(phase: GesturePhase, touch: TouchPoint, duration?: number): void {
+    this.emitVisualFeedback({
+      type: VisualFeedbackType.PRESS,
+      phase,
+      x: touch.x,
+      y: touch.y,
+      timestamp: touch.timestamp,
+      duration
+    });
+  }
+
+  /**
+   * Set the listener that draws visual feedback, such as a feedback overlay
+   */
+  public setVisualFeedbackListener(listener: ((feedback: VisualFeedback) => void) | null): void {
+    this.visualFeedbackListener = listener;
+  }
+
+  /**
+   * Deliver visual feedback to the listener
+   */
+  private emitVisualFeedback(feedback: VisualFeedback): void {
+    if (!this.visualEnabled || !this.visualFeedbackListener) return;
+
+    const listener = this.visualFeedbackListener;
+    this.runSafely(`visual feedback listener for ${feedback.type}`, () => listener(feedback));
   }
 
   /**
    * Provide haptic feedback
    */
-  private provideHapticFeedback(data: GestureEvent | GestureState | any): void {
+  private provideHapticFeedback(data: FeedbackData): void {
     if (!this.hapticEnabled) return;
 
+    // Gestures bound to a sequence play it instead of a single pulse
+    if ('type' in data && this.hapticSequences.getBinding(data.type)) {
+      this.triggerHapticEvent(data.type);
+      return;
+    }
+
     const hapticType = this.getHapticTypeForData(data);
     this.triggerHapticFeedback(hapticType);
   }
 
+  /**
+   * Play a haptic sequence, by name or given directly. Returns false if
+   * haptics are off, the sequence is unknown or invalid, or a sequence of
+   * higher priority is playing.
+   */
+  public playHapticSequence(sequence: string | HapticSequence): boolean {
+    if (!this.hapticEnabled) return false;
+
+    if (typeof sequence !== 'string') {
+      return this.sequencePlayer.play(sequence);
+    }
+
+    const registered = this.hapticSequences.get(sequence);
+    return registered ? this.sequencePlayer.play(registered, sequence) : false;
+  }
+
+  /**
+   * Play the haptic sequence bound to an app event, such as low health
+   */
+  public triggerHapticEvent(event: string): boolean {
+    const sequenceName = this.hapticSequences.getBinding(event);
+    return sequenceName ? this.playHapticSequence(sequenceName) : false;
+  }
+
+  /**
+   * Stop the playing haptic sequence, or only the named one
+   */
+  public cancelHapticSequence(name?: string): void {
+    this.sequencePlayer.cancel(name);
+  }
+
+  /**
+   * Get the scheduler, to adjust rate limits or read its stats
+   */
+  public getScheduler(): FeedbackScheduler {
+    return this.scheduler;
+  }
+
+  /**
+   * Get the haptic sequences, to register sequences and bind them to events
+   */
+  public getHapticSequences(): HapticSequenceRegistry {
+    return this.hapticSequences;
+  }
+
   /**
    * Provide audio feedback
    */
-  private provideAudioFeedback(data: GestureEvent | GestureState | any): void {
+  private provideAudioFeedback(data: FeedbackData): void {
     if (!this.audioEnabled) return;
 
     const audioType = this.getAudioTypeForData(data);
@@ -93,15 +286,17 @@ export class FeedbackManager {
   /**
    * Get haptic feedback type based on interaction data
    */
-  private getHapticTypeForData(data: GestureEvent | GestureState | any): HapticType {
+  private getHapticTypeForData(data: FeedbackData): HapticType {
     if ('type' in data) {
       // GestureEvent
       switch (data.type) {
         case 'tap':
           return HapticType.LIGHT;
         case 'double_tap':
+        case 'shape':
           return HapticType.MEDIUM;
         case 'long_press':
+        case 'force_touch':
           return HapticType.HEAVY;
         case 'swipe_left':
         case 'swipe_right':
@@ -112,6 +307,12 @@ export class FeedbackManager {
           return HapticType.IMPACT;
         case 'rotate':
           return HapticType.ROTATION;
+        case 'success':
+          return HapticType.SUCCESS;
+        case 'error':
+          return HapticType.ERROR;
+        case 'warning':
+          return HapticType.WARNING;
         default:
           return HapticType.LIGHT;
       }
@@ -123,10 +324,55 @@ export class FeedbackManager {
     return HapticType.LIGHT;
   }
 
+  /**
+   * Get visual feedback for a gesture event. Gesture states draw nothing;
+   * the gestures they become do.
+   */
+  private getVisualFeedbackForData(data: FeedbackData): VisualFeedback | null {
+    if (!('type' in data) || !data.state) return null;
+
+    const state = data.state;
+    const phase = data.phase || GesturePhase.ENDED;
+    const startTouch = state.startTouches[0];
+    const currentTouch = state.currentTouches[0];
+    const feedback = { phase, x: state.centroidX, y: state.centroidY, timestamp: data.timestamp ?? state.startTime };
+
+    switch (data.type) {
+      case 'tap':
+      case 'double_tap':
+        return {
+          ...feedback,
+          type: VisualFeedbackType.RIPPLE,
+          x: startTouch?.x ?? feedback.x,
+          y: startTouch?.y ?? feedback.y
+        };
+      case 'long_press':
+        return {
+          ...feedback,
+          type: VisualFeedbackType.PRESS,
+          x: startTouch?.x ?? feedback.x,
+          y: startTouch?.y ?? feedback.y
+        };
+      case 'pan':
+        return {
+          ...feedback,
+          type: VisualFeedbackType.TRAIL,
+          x: currentTouch?.x ?? feedback.x,
+          y: currentTouch?.y ?? feedback.y
+        };
+      case 'pinch':
+        return { ...feedback, type: VisualFeedbackType.PINCH, scale: state.scale };
+      case 'rotate':
+        return { ...feedback, type: VisualFeedbackType.ROTATE, rotation: state.rotation };
+      default:
+        return null;
+    }
+  }
+
   /**
    * Get audio feedback type based on interaction data
    */
-  private getAudioTypeForData(data: GestureEvent | GestureState | any): AudioType {
+  private getAudioTypeForData(data: FeedbackData): AudioType {
     if ('type' in data) {
       // GestureEvent
       switch (data.type) {
@@ -145,6 +391,12 @@ export class FeedbackManager {
           return AudioType.PINCH;
         case 'rotate':
           return AudioType.ROTATE;
+        case 'success':
+          return AudioType.SUCCESS;
+        case 'error':
+          return AudioType.ERROR;
+        case 'warning':
+          return AudioType.WARNING;
         default:
           return AudioType.TAP;
       }
@@ -154,21 +406,25 @@ export class FeedbackManager {
   }
 
   /**
-   * Trigger haptic feedback
+   * Trigger haptic feedback through the backend, scaled to the feedback intensity
    */
-  private triggerHapticFeedback(hapticType: HapticType): void {
-    // This would interface with platform-specific haptic APIs
-    // For React Native, you might use react-native-haptic-feedback
-    console.log(`Haptic feedback: ${hapticType} (intensity: ${this.feedbackIntensity})`);
+  private triggerHapticFeedback(hapticType: HapticType, strength: number = 1): void {
+    const intensity = this.feedbackIntensity * Math.max(0, Math.min(1, strength));
+    const pattern = getHapticPattern(hapticType, intensity, this.platform);
+    if (!pattern) return;
+
+    this.runSafely(`haptic backend for ${hapticType}`, () => {
+      this.hapticBackend.trigger({ type: hapticType, intensity, pattern });
+    });
   }
 
   /**
-   * Trigger audio feedback
+   * Trigger audio feedback through the sound bank; types without a sound stay silent
    */
   private triggerAudioFeedback(audioType: AudioType): void {
-    // This would interface with platform-specific audio APIs
-    // For React Native, you might use react-native-sound
-    console.log(`Audio feedback: ${audioType}`);
+    if (this.soundBank.has(audioType)) {
+      this.soundBank.play(audioType, error => this.reportError(`sound for ${audioType}`, error));
+    }
   }
 
   /**
@@ -192,15 +448,43 @@ export class FeedbackManager {
     }
   }
 
+  /**
+   * Replace the backend that plays haptics
+   */
+  public setHapticBackend(backend: HapticBackend): void {
+    this.hapticBackend = backend;
+  }
+
+  /**
+   * Replace the sound bank that plays audio feedback
+   */
+  public setSoundBank(soundBank: SoundBank): void {
+    this.soundBank.stopAll();
+    this.soundBank = soundBank;
+  }
+
+  /**
+   * Get the sound bank, to preload sounds or adjust category volumes
+   */
+  public getSoundBank(): SoundBank {
+    return this.soundBank;
+  }
+
   /**
    * Enable/disable specific feedback types
    */
   public setHapticEnabled(enabled: boolean): void {
     this.hapticEnabled = enabled;
+    if (!enabled) {
+      this.sequencePlayer.cancel();
+    }
   }
 
   public setAudioEnabled(enabled: boolean): void {
     this.audioEnabled = enabled;
+    if (!enabled) {
+      this.soundBank.stopAll();
+    }
   }
 
   public setVisualEnabled(enabled: boolean): void {
@@ -230,24 +514,31 @@ export class FeedbackManager {
    * Provide success feedback
    */
   public provideSuccessFeedback(): void {
-    this.provideHapticFeedback({ type: 'success' });
-    this.provideAudioFeedback({ type: 'success' });
+    this.scheduleOutcomeFeedback('success');
   }
 
   /**
    * Provide error feedback
    */
   public provideErrorFeedback(): void {
-    this.provideHapticFeedback({ type: 'error' });
-    this.provideAudioFeedback({ type: 'error' });
+    this.scheduleOutcomeFeedback('error');
   }
 
   /**
    * Provide warning feedback
    */
   public provideWarningFeedback(): void {
-    this.provideHapticFeedback({ type: 'warning' });
-    this.provideAudioFeedback({ type: 'warning' });
+    this.scheduleOutcomeFeedback('warning');
+  }
+
+  /**
+   * Schedule the haptic and sound of a success, error or warning, without custom callbacks
+   */
+  private scheduleOutcomeFeedback(type: 'success' | 'error' | 'warning'): void {
+    const data = { type };
+    const priority = this.getFeedbackPriority(data);
+    this.scheduler.schedule(TouchFeedbackType.HAPTIC, type, priority, () => this.provideHapticFeedback(data));
+    this.scheduler.schedule(TouchFeedbackType.AUDIO, type, priority, () => this.provideAudioFeedback(data));
   }
 
   /**
@@ -255,35 +546,10 @@ export class FeedbackManager {
    */
   public destroy(): void {
     this.customFeedbackCallbacks.clear();
+    this.visualFeedbackListener = null;
+    this.sequencePlayer.cancel();
+    this.scheduler.destroy();
+    this.soundBank.destroy();
   }
 }
 
-/**
- * Haptic feedback types
- */
-export enum HapticType {
-  LIGHT = 'light',
-  MEDIUM = 'medium',
-  HEAVY = 'heavy',
-  SELECTION = 'selection',
-  IMPACT = 'impact',
-  ROTATION = 'rotation',
-  SUCCESS = 'success',
-  ERROR = 'error',
-  WARNING = 'warning'
-}
-
-/**
- * Audio feedback types
- */
-export enum AudioType {
-  TAP = 'tap',
-  DOUBLE_TAP = 'double_tap',
-  LONG_PRESS = 'long_press',
-  SWIPE = 'swipe',
-  PINCH = 'pinch',
-  ROTATE = 'rotate',
-  SUCCESS = 'success',
-  ERROR = 'error',
-  WARNING = 'warning'
-}
\ No newline at end of file
@@ -0,0 +1,296 @@
+/**
+ * Feedback Scheduler
+ * Rate-limits, coalesces and prioritizes feedback before it is delivered
+ */
+
+import { systemClock } from './Clock';
+import {
+  Clock,
+  ClockTimer,
+  FeedbackChannelLimit,
+  FeedbackPriority,
+  FeedbackSchedulerStats,
+  TouchFeedbackType
+} from '../types/TouchTypes';
+
+const DEFAULT_CHANNEL_LIMITS: Record<TouchFeedbackType, FeedbackChannelLimit> = {
+  [TouchFeedbackType.VISUAL]: { rate: 60, burst: 10 },
+  [TouchFeedbackType.HAPTIC]: { rate: 12, burst: 4, maxDelay: 100 },
+  [TouchFeedbackType.AUDIO]: { rate: 8, burst: 3, maxDelay: 150 }
+};
+const DEFAULT_BUDGET = 80;
+const DEFAULT_QUEUE_SIZE = 8;
+const BUDGET_WINDOW = 1000;
+// Battery impact at which the budget starts to tighten, the most PerformanceMonitor finds acceptable
+const BATTERY_IMPACT_THRESHOLD = 0.05;
+// Battery impact at which the budget is tightest
+const MAX_BATTERY_IMPACT = 0.1;
+const MIN_BUDGET_SCALE = 0.25;
+// Allowance for rounding when a token bucket refills
+const TOKEN_EPSILON = 1e-9;
+
+interface FeedbackSchedulerOptions {
+  clock?: Clock;
+  limits?: Partial<Record<TouchFeedbackType, FeedbackChannelLimit>>;
+  // Feedback per second allowed across all channels
+  budget?: number;
+  // Feedback that may wait per channel; more drops the lowest priority
+  queueSize?: number;
+}
+
+interface QueuedFeedback {
+  channel: TouchFeedbackType;
+  key: string;
+  priority: FeedbackPriority;
+  requestedAt: number;
+  order: number;
+  deliver: () => void;
+}
+
+interface ChannelState {
+  limit: FeedbackChannelLimit;
+  tokens: number;
+  refilledAt: number;
+}
+
+export class FeedbackScheduler {
+  private clock: Clock;
+  private channels: Map<TouchFeedbackType, ChannelState> = new Map();
+  private queue: QueuedFeedback[] = [];
+  private deliveryTimes: number[] = [];
+  private baseBudget: number;
+  private budgetScale: number = 1;
+  private queueSize: number;
+  private flushTimer: ClockTimer | null = null;
+  private nextOrder: number = 0;
+  private delivered: number = 0;
+  private coalesced: number = 0;
+  private dropped: number = 0;
+
+  constructor(options: FeedbackSchedulerOptions = {}) {
+    this.clock = options.clock || systemClock;
+    this.baseBudget = options.budget ?? DEFAULT_BUDGET;
+    this.queueSize = Math.max(1, options.queueSize ?? DEFAULT_QUEUE_SIZE);
+    Object.values(TouchFeedbackType).forEach(channel => {
+      const limit = options.limits?.[channel];
+      if (!limit || !this.setChannelLimit(channel, limit)) {
+        this.setChannelLimit(channel, DEFAULT_CHANNEL_LIMITS[channel]);
+      }
+    });
+  }
+
+  /**
+   * Deliver feedback now if its channel and the budget allow, or queue it.
+   * Feedback with the same key as queued feedback replaces it. Returns false
+   * if the feedback was dropped.
+   */
+  public schedule(
+    channel: TouchFeedbackType,
+    key: string,
+    priority: FeedbackPriority,
+    deliver: () => void
+  ): boolean {
+    const now = this.clock.now();
+
+    const queued = this.queue.find(candidate => candidate.channel === channel && candidate.key === key);
+    if (queued) {
+      // The latest feedback wins, at the higher of the two priorities
+      queued.deliver = deliver;
+      queued.priority = Math.max(queued.priority, priority);
+      this.coalesced++;
+      return true;
+    }
+
+    // Feedback already waiting on the channel goes first
+    const isChannelWaiting = this.queue.some(candidate => candidate.channel === channel);
+    if (!isChannelWaiting && this.canDeliver(channel, now)) {
+      this.deliver({ channel, key, priority, requestedAt: now, order: this.nextOrder++, deliver }, now);
+      return true;
+    }
+
+    const channelQueue = this.queue.filter(candidate => candidate.channel === channel);
+    if (channelQueue.length >= this.queueSize) {
+      const lowest = channelQueue.reduce((current, candidate) =>
+        candidate.priority < current.priority ? candidate : current
+      );
+      if (lowest.priority > priority) {
+        this.dropped++;
+        return false;
+      }
+      this.queue = this.queue.filter(candidate => candidate !== lowest);
+      this.dropped++;
+    }
+
+    this.queue.push({ channel, key, priority, requestedAt: now, order: this.nextOrder++, deliver });
+    this.scheduleFlush();
+    return true;
+  }
+
+  /**
+   * Replace the rate limit of a channel, refilling its bucket. Returns false
+   * unless the rate is positive and the burst at least 1.
+   */
+  public setChannelLimit(channel: TouchFeedbackType, limit: FeedbackChannelLimit): boolean {
+    if (limit.rate <= 0 || limit.burst < 1) return false;
+
+    this.channels.set(channel, { limit, tokens: limit.burst, refilledAt: this.clock.now() });
+    this.scheduleFlush();
+    return true;
+  }
+
+  /**
+   * Get the rate limit of a channel
+   */
+  public getChannelLimit(channel: TouchFeedbackType): FeedbackChannelLimit {
+    return { ...this.channels.get(channel)!.limit };
+  }
+
+  /**
+   * Tighten the budget as battery impact rises past what is acceptable,
+   * down to a quarter of the budget
+   */
+  public setBatteryImpact(batteryImpact: number): void {
+    const excess = (batteryImpact - BATTERY_IMPACT_THRESHOLD) / (MAX_BATTERY_IMPACT - BATTERY_IMPACT_THRESHOLD);
+    this.budgetScale = 1 - Math.max(0, Math.min(1, excess)) * (1 - MIN_BUDGET_SCALE);
+    this.scheduleFlush();
+  }
+
+  /**
+   * Get the feedback per second allowed across all channels
+   */
+  public getBudget(): number {
+    return Math.max(1, Math.floor(this.baseBudget * this.budgetScale));
+  }
+
+  /**
+   * Get counts of delivered, coalesced, dropped and pending feedback
+   */
+  public getStats(): FeedbackSchedulerStats {
+    return {
+      delivered: this.delivered,
+      coalesced: this.coalesced,
+      dropped: this.dropped,
+      pending: this.queue.length,
+      budget: this.getBudget()
+    };
+  }
+
+  /**
+   * Drop queued feedback without delivering it
+   */
+  public clear(): void {
+    this.queue = [];
+    if (this.flushTimer !== null) {
+      this.clock.clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  /**
+   * Deliver queued feedback, highest priority first, until channels or the budget run out
+   */
+  private flush(): void {
+    this.flushTimer = null;
+    const now = this.clock.now();
+
+    // Late haptics and sounds no longer match what the user did
+    this.queue = this.queue.filter(feedback => {
+      const maxDelay = this.channels.get(feedback.channel)!.limit.maxDelay;
+      const isStale = maxDelay !== undefined && now - feedback.requestedAt > maxDelay;
+      if (isStale) {
+        this.dropped++;
+      }
+      return !isStale;
+    });
+
+    // Feedback that throws still leaves the rest of the queue to a later flush
+    try {
+      let next = this.nextDeliverable(now);
+      while (next) {
+        const feedback = next;
+        this.queue = this.queue.filter(candidate => candidate !== feedback);
+        this.deliver(feedback, now);
+        next = this.nextDeliverable(now);
+      }
+    } finally {
+      this.scheduleFlush();
+    }
+  }
+
+  /**
+   * Get the queued feedback to deliver next: the highest priority, then the oldest
+   */
+  private nextDeliverable(now: number): QueuedFeedback | null {
+    let next: QueuedFeedback | null = null;
+    for (const feedback of this.queue) {
+      if (!this.canDeliver(feedback.channel, now)) continue;
+      if (!next || feedback.priority > next.priority || (feedback.priority === next.priority && feedback.order < next.order)) {
+        next = feedback;
+      }
+    }
+    return next;
+  }
+
+  /**
+   * Check if a channel has a token and the budget has room
+   */
+  private canDeliver(channel: TouchFeedbackType, now: number): boolean {
+    return this.refill(channel, now).tokens >= 1 - TOKEN_EPSILON && this.getBudgetWait(now) <= 0;
+  }
+
+  /**
+   * Spend a token and a share of the budget, then deliver the feedback
+   */
+  private deliver(feedback: QueuedFeedback, now: number): void {
+    this.refill(feedback.channel, now).tokens -= 1;
+    this.deliveryTimes.push(now);
+    this.delivered++;
+    feedback.deliver();
+  }
+
+  /**
+   * Add the tokens a channel earned since it was last refilled
+   */
+  private refill(channel: TouchFeedbackType, now: number): ChannelState {
+    const state = this.channels.get(channel)!;
+    const earned = ((now - state.refilledAt) * state.limit.rate) / 1000;
+    state.tokens = Math.min(state.limit.burst, state.tokens + earned);
+    state.refilledAt = now;
+    return state;
+  }
+
+  /**
+   * Get the milliseconds until the budget has room, forgetting deliveries outside its window
+   */
+  private getBudgetWait(now: number): number {
+    this.deliveryTimes = this.deliveryTimes.filter(time => now - time < BUDGET_WINDOW);
+    const excess = this.deliveryTimes.length - this.getBudget();
+    return excess < 0 ? 0 : this.deliveryTimes[excess] + BUDGET_WINDOW - now;
+  }
+
+  /**
+   * Wake up when the queued feedback that can go soonest is allowed
+   */
+  private scheduleFlush(): void {
+    if (this.flushTimer !== null) {
+      this.clock.clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.queue.length === 0) return;
+
+    const now = this.clock.now();
+    const channelWait = Math.min(...this.queue.map(feedback => {
+      const state = this.refill(feedback.channel, now);
+      return Math.max(0, ((1 - state.tokens) * 1000) / state.limit.rate);
+    }));
+    const delay = Math.max(channelWait, this.getBudgetWait(now));
+    this.flushTimer = this.clock.setTimeout(() => this.flush(), delay);
+  }
+
+  /**
+   * Cleanup resources
+   */
+  public destroy(): void {
+    this.clear();
+  }
+}
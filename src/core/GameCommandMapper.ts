@@ -0,0 +1,190 @@
+/**
+ * Game Command Mapper
+ * Turns recognized gestures into game commands through a game adapter
+ */
+
+import { TouchControlManager } from './TouchControlManager';
+import { GestureBindingStore } from './GestureBindingStore';
+import {
+  GameCommand,
+  GameCommandAdapter,
+  GameCommandBinding,
+  GestureEvent,
+  GestureName,
+  GesturePhase,
+  GestureType
+} from '../types/TouchTypes';
+
+export const defaultGameCommandBindings: GameCommandBinding[] = [
+  { action: GameCommand.MOVE_OR_ATTACK, gesture: GestureType.TAP },
+  { action: GameCommand.INSPECT, gesture: GestureType.LONG_PRESS },
+  { action: GameCommand.ZOOM, gesture: GestureType.PINCH },
+  { action: GameCommand.OPEN_CHAT, gesture: GestureType.SWIPE_UP },
+  { action: GameCommand.TOGGLE_ACHIEVEMENTS, gesture: GestureType.SWIPE_DOWN }
+];
+
+// Commands that follow every phase of a continuous gesture rather than firing once
+const CONTINUOUS_COMMANDS: GameCommand[] = [GameCommand.ZOOM];
+const GAME_COMMANDS: Set<string> = new Set(Object.values(GameCommand));
+// Namespace of the command bindings in a shared binding store, apart from other actions
+export const GAME_COMMAND_NAMESPACE = 'game';
+
+/**
+ * Check if a bound action is a game command
+ */
+const isGameCommand = (action: string): action is GameCommand => GAME_COMMANDS.has(action);
+
+export class GameCommandMapper {
+  private adapter: GameCommandAdapter;
+  private bindingStore: GestureBindingStore;
+  private manager: TouchControlManager | null = null;
+  private subscribedGestures: Set<GestureName> = new Set();
+
+  constructor(
+    adapter: GameCommandAdapter,
+    bindingStore: GestureBindingStore = new GestureBindingStore<string>(defaultGameCommandBindings)
+  ) {
+    this.adapter = adapter;
+    this.bindingStore = bindingStore;
+  }
+
+  /**
+   * Get the store holding the command bindings, shared with the attached manager
+   */
+  public getBindingStore(): GestureBindingStore {
+    return this.bindingStore;
+  }
+
+  /**
+   * Bind a gesture to a command, replacing the gesture's previous command and
+   * the command's previous gesture
+   */
+  public bind(gesture: GestureName, command: GameCommand, targetId?: string): void {
+    this.unbind(gesture, targetId);
+    this.bindingStore.bind(command, gesture, targetId);
+    this.subscribe(gesture);
+  }
+
+  /**
+   * Remove the command bound to a gesture, keeping the gesture's other actions
+   */
+  public unbind(gesture: GestureName, targetId?: string): void {
+    this.bindingStore
+      .getActions(gesture, targetId)
+      .filter(isGameCommand)
+      .forEach(command => this.bindingStore.unbind(command, targetId));
+  }
+
+  /**
+   * Get the command bound to a gesture. Bindings for the target take
+   * precedence over bindings that apply anywhere.
+   */
+  public getCommand(gesture: GestureName, targetId?: string): GameCommand | null {
+    const commands = this.bindingStore.getActions(gesture, targetId).filter(isGameCommand);
+    if (commands.length > 0 || targetId === undefined) {
+      return commands[0] ?? null;
+    }
+    return this.getCommand(gesture);
+  }
+
+  /**
+   * Get every command binding
+   */
+  public getBindings(): GameCommandBinding[] {
+    return this.bindingStore
+      .getBindings()
+      .filter((binding): binding is GameCommandBinding => isGameCommand(binding.action));
+  }
+
+  /**
+   * Restore the default command bindings
+   */
+  public resetBindings(): void {
+    this.bindingStore.resetToDefaults(Object.values(GameCommand));
+  }
+
+  /**
+   * Listen for gestures on a touch control manager and keep the command
+   * bindings in its binding store, adding the default commands to it in their
+   * own namespace so they don't conflict with the manager's actions. Built-in
+   * gestures are always listened for, so bindings changed in the store take
+   * effect at once.
+   */
+  public attach(manager: TouchControlManager): void {
+    this.detach();
+    this.manager = manager;
+    this.bindingStore = manager.getBindingStore();
+    this.bindingStore.addDefaults(defaultGameCommandBindings, GAME_COMMAND_NAMESPACE);
+    Object.values(GestureType).forEach(gesture => this.subscribe(gesture));
+    this.getBindings().forEach(binding => this.subscribe(binding.gesture));
+  }
+
+  /**
+   * Stop listening for gestures
+   */
+  public detach(): void {
+    if (!this.manager) return;
+
+    const manager = this.manager;
+    this.subscribedGestures.forEach(gesture => manager.offGesture(gesture, this.handleGesture));
+    this.subscribedGestures.clear();
+    this.manager = null;
+  }
+
+  /**
+   * Run the command bound to a gesture, returning whether one ran. Errors
+   * thrown by the adapter reach the caller, so an attached manager reports
+   * them like any other failing gesture callback.
+   */
+  public handleGesture = (gestureEvent: GestureEvent): boolean => {
+    const command = this.getCommand(gestureEvent.type, gestureEvent.target?.id);
+    if (!command) return false;
+
+    const phase = gestureEvent.phase || GesturePhase.ENDED;
+    // Discrete commands fire once, when the gesture completes
+    if (!CONTINUOUS_COMMANDS.includes(command) && phase !== GesturePhase.ENDED) {
+      return false;
+    }
+
+    this.executeCommand(command, gestureEvent, phase);
+    return true;
+  };
+
+  /**
+   * Call the adapter for a command
+   */
+  private executeCommand(command: GameCommand, gestureEvent: GestureEvent, phase: GesturePhase): void {
+    const position = gestureEvent.state.startTouches[0] || {
+      x: gestureEvent.state.centroidX,
+      y: gestureEvent.state.centroidY
+    };
+
+    switch (command) {
+      case GameCommand.MOVE_OR_ATTACK:
+        this.adapter.moveOrAttack(position.x, position.y);
+        break;
+      case GameCommand.INSPECT:
+        this.adapter.inspect(position.x, position.y);
+        break;
+      case GameCommand.ZOOM:
+        this.adapter.zoom(gestureEvent.state.scale, phase);
+        break;
+      case GameCommand.OPEN_CHAT:
+        this.adapter.openChat();
+        break;
+      case GameCommand.TOGGLE_ACHIEVEMENTS:
+        this.adapter.toggleAchievements();
+        break;
+    }
+  }
+
+  /**
+   * Listen for a gesture on the attached manager, once
+   */
+  private subscribe(gesture: GestureName): void {
+    if (!this.manager || this.subscribedGestures.has(gesture)) return;
+
+    this.manager.onGesture(gesture, this.handleGesture);
+    this.subscribedGestures.add(gesture);
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Gesture Arbiter
+ * Resolves conflicts between gestures recognized during the same touch sequence
+ */
+
+import {
+  GestureEvent,
+  GestureName,
+  GesturePhase
+} from '../types/TouchTypes';
+
+export class GestureArbiter {
+  private exclusiveByDefault: boolean;
+  private failureRequirements: Map<GestureName, Set<GestureName>> = new Map();
+  private simultaneousPairs: Map<string, boolean> = new Map();
+  private priorities: Map<GestureName, number> = new Map();
+  private recognizedGestures: Set<GestureName> = new Set();
+  private defeatedGestures: Set<GestureName> = new Set();
+  private inProgressGestures: Map<GestureName, GestureEvent> = new Map();
+  private heldEvents: GestureEvent[] = [];
+  private isSequenceActive: boolean = false;
+  private sequenceStartTime: number = -Infinity;
+
+  constructor(exclusiveByDefault: boolean = false) {
+    this.exclusiveByDefault = exclusiveByDefault;
+  }
+
+  /**
+   * Hold a gesture back until the other gesture fails to be recognized
+   */
+  public requireFailureOf(gesture: GestureName, otherGesture: GestureName): void {
+    const requirements = this.failureRequirements.get(gesture) || new Set();
+    requirements.add(otherGesture);
+    this.failureRequirements.set(gesture, requirements);
+  }
+
+  /**
+   * Declare whether two gestures may both be recognized in the same touch sequence
+   */
+  public recognizeSimultaneously(
+    gesture: GestureName,
+    otherGesture: GestureName,
+    simultaneous: boolean = true
+  ): void {
+    this.simultaneousPairs.set(this.getPairKey(gesture, otherGesture), simultaneous);
+  }
+
+  /**
+   * Set gesture priority; of two conflicting gestures the higher priority wins
+   */
+  public setPriority(gesture: GestureName, priority: number): void {
+    this.priorities.set(gesture, priority);
+  }
+
+  /**
+   * Set whether gestures without a declared relationship conflict
+   */
+  public setExclusiveByDefault(exclusive: boolean): void {
+    this.exclusiveByDefault = exclusive;
+  }
+
+  /**
+   * Start a new touch sequence at the time its first touch went down
+   */
+  public beginSequence(startTime: number = -Infinity): void {
+    this.sequenceStartTime = startTime;
+    this.recognizedGestures.clear();
+    this.defeatedGestures.clear();
+    this.inProgressGestures.clear();
+    this.heldEvents = [];
+    this.isSequenceActive = true;
+  }
+
+  /**
+   * End the touch sequence, releasing held gestures whose blockers failed
+   */
+  public endSequence(): GestureEvent[] {
+    this.isSequenceActive = false;
+
+    const heldEvents = this.heldEvents;
+    this.heldEvents = [];
+
+    return heldEvents.reduce<GestureEvent[]>(
+      (released, gestureEvent) => released.concat(this.arbitrate(gestureEvent)),
+      []
+    );
+  }
+
+  /**
+   * Drop held gestures of a cancelled touch sequence
+   */
+  public cancelSequence(): void {
+    this.heldEvents = [];
+    this.isSequenceActive = false;
+  }
+
+  /**
+   * Decide which events to deliver for a newly recognized gesture event
+   */
+  public arbitrate(gestureEvent: GestureEvent): GestureEvent[] {
+    const gesture = gestureEvent.type;
+
+    // A gesture of an earlier sequence, such as a tap held back until the next
+    // touch proved not to be a double tap, can't conflict with this sequence's
+    if (gestureEvent.timestamp < this.sequenceStartTime) {
+      return [gestureEvent];
+    }
+
+    if (this.defeatedGestures.has(gesture)) {
+      return [];
+    }
+
+    // Wait for the gestures this one requires to fail
+    const requirements = this.failureRequirements.get(gesture);
+    if (requirements) {
+      const blockers = Array.from(requirements);
+      if (blockers.some(blocker => this.recognizedGestures.has(blocker))) {
+        this.defeatedGestures.add(gesture);
+        return [];
+      }
+      if (this.isSequenceActive) {
+        this.heldEvents.push(gestureEvent);
+        return [];
+      }
+    }
+
+    const deliveredEvents: GestureEvent[] = [];
+
+    for (const otherGesture of Array.from(this.recognizedGestures)) {
+      if (otherGesture === gesture || this.canRecognizeSimultaneously(gesture, otherGesture)) {
+        continue;
+      }
+
+      if (this.getPriority(gesture) <= this.getPriority(otherGesture)) {
+        this.defeatedGestures.add(gesture);
+        return [];
+      }
+
+      // The winner cancels a continuous gesture still in progress
+      const inProgressEvent = this.inProgressGestures.get(otherGesture);
+      if (inProgressEvent) {
+        deliveredEvents.push({
+          ...inProgressEvent,
+          timestamp: gestureEvent.timestamp,
+          phase: GesturePhase.CANCELLED
+        });
+      }
+      this.defeat(otherGesture);
+    }
+
+    // Gestures that required this one to fail can no longer be recognized
+    this.heldEvents = this.heldEvents.filter(heldEvent => {
+      const heldRequirements = this.failureRequirements.get(heldEvent.type);
+      if (heldRequirements?.has(gesture)) {
+        this.defeatedGestures.add(heldEvent.type);
+        return false;
+      }
+      return true;
+    });
+
+    if (gestureEvent.phase === GesturePhase.CANCELLED) {
+      this.recognizedGestures.delete(gesture);
+      this.inProgressGestures.delete(gesture);
+    } else {
+      this.recognizedGestures.add(gesture);
+      if (gestureEvent.phase === GesturePhase.ENDED || !gestureEvent.phase) {
+        this.inProgressGestures.delete(gesture);
+      } else {
+        this.inProgressGestures.set(gesture, gestureEvent);
+      }
+    }
+
+    deliveredEvents.push(gestureEvent);
+    return deliveredEvents;
+  }
+
+  /**
+   * Mark a gesture as lost for the rest of the sequence
+   */
+  private defeat(gesture: GestureName): void {
+    this.recognizedGestures.delete(gesture);
+    this.inProgressGestures.delete(gesture);
+    this.defeatedGestures.add(gesture);
+  }
+
+  /**
+   * Check if two gestures may both be recognized in the same sequence
+   */
+  private canRecognizeSimultaneously(gesture: GestureName, otherGesture: GestureName): boolean {
+    const simultaneous = this.simultaneousPairs.get(this.getPairKey(gesture, otherGesture));
+    return simultaneous ?? !this.exclusiveByDefault;
+  }
+
+  /**
+   * Get gesture priority
+   */
+  private getPriority(gesture: GestureName): number {
+    return this.priorities.get(gesture) || 0;
+  }
+
+  /**
+   * Get order-independent key for a pair of gestures
+   */
+  private getPairKey(gesture: GestureName, otherGesture: GestureName): string {
+    return [gesture, otherGesture].sort().join('|');
+  }
+
+  /**
+   * Clear sequence state
+   */
+  public reset(): void {
+    this.recognizedGestures.clear();
+    this.defeatedGestures.clear();
+    this.inProgressGestures.clear();
+    this.heldEvents = [];
+    this.isSequenceActive = false;
+  }
+}
@@ -0,0 +1,299 @@
+/**
+ * Gesture Binding Store
+ * Rebindable gesture-to-action bindings with defaults, persistence and conflict detection
+ */
+
+import {
+  BindingConflict,
+  GestureBinding,
+  GestureName,
+  GestureType,
+  StorageAdapter
+} from '../types/TouchTypes';
+
+const BINDINGS_VERSION = 1;
+const DEFAULT_STORAGE_KEY = 'touch-controls/gesture-bindings';
+// Namespace of the store's own defaults and of actions bound without defaults
+export const DEFAULT_BINDING_NAMESPACE = 'default';
+
+export const defaultGestureBindings: GestureBinding[] = [
+  { action: 'activate', gesture: GestureType.TAP },
+  { action: 'double activate', gesture: GestureType.DOUBLE_TAP },
+  { action: 'long activate', gesture: GestureType.LONG_PRESS },
+  { action: 'swipe left', gesture: GestureType.SWIPE_LEFT },
+  { action: 'swipe right', gesture: GestureType.SWIPE_RIGHT },
+  { action: 'swipe up', gesture: GestureType.SWIPE_UP },
+  { action: 'swipe down', gesture: GestureType.SWIPE_DOWN }
+];
+
+interface GestureBindingStoreOptions {
+  storage?: StorageAdapter;
+  storageKey?: string;
+}
+
+interface StoredGestureBindings<A extends string> {
+  version: number;
+  // Actions covered by the saved bindings, including ones the player unbound
+  actions: A[];
+  bindings: GestureBinding<A>[];
+}
+
+export class GestureBindingStore<A extends string = string> {
+  private defaults: GestureBinding<A>[];
+  private bindings: GestureBinding<A>[] = [];
+  private storage: StorageAdapter | null;
+  private storageKey: string;
+  private changeListener: ((bindings: GestureBinding<A>[]) => void) | null = null;
+  // Actions covered by the last loaded bindings
+  private loadedActions: Set<A> = new Set();
+  // Namespaces of actions whose defaults were added by a consumer
+  private namespaces: Map<A, string> = new Map();
+
+  constructor(defaults: GestureBinding<A>[], options: GestureBindingStoreOptions = {}) {
+    this.defaults = defaults.map(binding => ({ ...binding }));
+    this.storage = options.storage || null;
+    this.storageKey = options.storageKey || DEFAULT_STORAGE_KEY;
+    this.applyBindings(this.defaults);
+  }
+
+  /**
+   * Get every binding
+   */
+  public getBindings(): GestureBinding<A>[] {
+    return this.bindings.map(binding => ({ ...binding }));
+  }
+
+  /**
+   * Get the action for a gesture on a target, optionally only from one
+   * namespace. Bindings for the target take precedence over bindings that
+   * apply anywhere.
+   */
+  public getAction(gesture: GestureName, targetId?: string, namespace?: string): A | null {
+    const actions = this.getActions(gesture, targetId, namespace);
+    if (actions.length > 0 || targetId === undefined) {
+      return actions[0] ?? null;
+    }
+    return this.getActions(gesture, undefined, namespace)[0] ?? null;
+  }
+
+  /**
+   * Get every action bound to a gesture on exactly the given target,
+   * optionally only from one namespace
+   */
+  public getActions(gesture: GestureName, targetId?: string, namespace?: string): A[] {
+    return this.bindings
+      .filter(binding => binding.gesture === gesture && binding.targetId === targetId)
+      .map(binding => binding.action)
+      .filter(action => namespace === undefined || this.getNamespace(action) === namespace);
+  }
+
+  /**
+   * Get the namespace of an action
+   */
+  public getNamespace(action: A): string {
+    return this.namespaces.get(action) ?? DEFAULT_BINDING_NAMESPACE;
+  }
+
+  /**
+   * Get the gesture bound to an action on a target
+   */
+  public getGesture(action: A, targetId?: string): GestureName | null {
+    const binding = this.bindings.find(
+      candidate => candidate.action === action && candidate.targetId === targetId
+    );
+    return binding ? binding.gesture : null;
+  }
+
+  /**
+   * Bind an action to a gesture, replacing the action's previous gesture on
+   * the same target. Returns the resulting conflict within the action's
+   * namespace, if any.
+   */
+  public bind(action: A, gesture: GestureName, targetId?: string): BindingConflict<A> | null {
+    this.bindings = this.bindings.filter(
+      binding => !(binding.action === action && binding.targetId === targetId)
+    );
+    this.bindings.push(targetId === undefined ? { action, gesture } : { action, gesture, targetId });
+    this.notifyChange();
+
+    return this.getConflict(gesture, targetId, this.getNamespace(action));
+  }
+
+  /**
+   * Remove an action's binding on a target
+   */
+  public unbind(action: A, targetId?: string): void {
+    this.bindings = this.bindings.filter(
+      binding => !(binding.action === action && binding.targetId === targetId)
+    );
+    this.notifyChange();
+  }
+
+  /**
+   * Remove every action bound to a gesture on a target
+   */
+  public unbindGesture(gesture: GestureName, targetId?: string): void {
+    this.bindings = this.bindings.filter(
+      binding => !(binding.gesture === gesture && binding.targetId === targetId)
+    );
+    this.notifyChange();
+  }
+
+  /**
+   * Get the actions of a namespace sharing a gesture on a target, if more
+   * than one does. Actions of different namespaces belong to different
+   * consumers and never conflict.
+   */
+  public getConflict(
+    gesture: GestureName,
+    targetId?: string,
+    namespace: string = DEFAULT_BINDING_NAMESPACE
+  ): BindingConflict<A> | null {
+    const actions = this.getActions(gesture, targetId, namespace);
+    if (actions.length < 2) return null;
+
+    return targetId === undefined ? { gesture, actions } : { gesture, targetId, actions };
+  }
+
+  /**
+   * Get every gesture and target that more than one action of the same
+   * namespace is bound to
+   */
+  public getConflicts(): BindingConflict<A>[] {
+    const conflicts: BindingConflict<A>[] = [];
+    const seen = new Set<string>();
+
+    this.bindings.forEach(binding => {
+      const namespace = this.getNamespace(binding.action);
+      const key = `${binding.gesture}\u0000${binding.targetId ?? ''}\u0000${namespace}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+
+      const conflict = this.getConflict(binding.gesture, binding.targetId, namespace);
+      if (conflict) {
+        conflicts.push(conflict);
+      }
+    });
+
+    return conflicts;
+  }
+
+  /**
+   * Add defaults for actions the store has no defaults for, in the namespace
+   * of the consumer adding them, binding each unless the action is already
+   * bound or covered by loaded bindings
+   */
+  public addDefaults(defaults: GestureBinding<A>[], namespace: string = DEFAULT_BINDING_NAMESPACE): void {
+    const knownActions = new Set(this.defaults.map(binding => binding.action));
+    const added = defaults.filter(binding => !knownActions.has(binding.action));
+    if (added.length === 0) return;
+
+    added.forEach(binding => this.namespaces.set(binding.action, namespace));
+
+    const boundActions = new Set(this.bindings.map(binding => binding.action));
+    this.defaults.push(...added.map(binding => ({ ...binding })));
+    this.applyBindings([
+      ...this.bindings,
+      ...added.filter(binding => !boundActions.has(binding.action) && !this.loadedActions.has(binding.action))
+    ]);
+    this.notifyChange();
+  }
+
+  /**
+   * Restore the default bindings, or only those of the given actions
+   */
+  public resetToDefaults(actions?: A[]): void {
+    if (actions) {
+      const resetActions = new Set(actions);
+      this.applyBindings([
+        ...this.bindings.filter(binding => !resetActions.has(binding.action)),
+        ...this.defaults.filter(binding => resetActions.has(binding.action))
+      ]);
+    } else {
+      this.loadedActions = new Set();
+      this.applyBindings(this.defaults);
+    }
+    this.notifyChange();
+  }
+
+  /**
+   * Save the bindings to storage
+   */
+  public async save(): Promise<void> {
+    if (!this.storage) return;
+
+    const actions = new Set<A>();
+    this.defaults.forEach(binding => actions.add(binding.action));
+    this.bindings.forEach(binding => actions.add(binding.action));
+
+    const stored: StoredGestureBindings<A> = {
+      version: BINDINGS_VERSION,
+      actions: Array.from(actions),
+      bindings: this.getBindings()
+    };
+    await this.storage.setItem(this.storageKey, JSON.stringify(stored));
+  }
+
+  /**
+   * Load saved bindings, returning whether they were applied. Actions added
+   * to the defaults since the bindings were saved keep their defaults.
+   */
+  public async load(): Promise<boolean> {
+    if (!this.storage) return false;
+
+    try {
+      const value = await this.storage.getItem(this.storageKey);
+      if (!value) return false;
+
+      const stored: StoredGestureBindings<A> = JSON.parse(value);
+      if (
+        stored.version !== BINDINGS_VERSION ||
+        !Array.isArray(stored.actions) ||
+        !Array.isArray(stored.bindings)
+      ) {
+        return false;
+      }
+
+      const savedActions = new Set(stored.actions);
+      this.loadedActions = savedActions;
+      this.applyBindings([
+        ...this.defaults.filter(binding => !savedActions.has(binding.action)),
+        ...stored.bindings
+      ]);
+      this.notifyChange();
+      return true;
+    } catch (error) {
+      // Unreadable storage or corrupt saved bindings leave the current ones in place
+      return false;
+    }
+  }
+
+  /**
+   * Remove the saved bindings and restore the defaults
+   */
+  public async clearSaved(): Promise<void> {
+    this.resetToDefaults();
+    await this.storage?.removeItem(this.storageKey);
+  }
+
+  /**
+   * Set listener called whenever bindings change
+   */
+  public setChangeListener(listener: ((bindings: GestureBinding<A>[]) => void) | null): void {
+    this.changeListener = listener;
+  }
+
+  /**
+   * Replace all bindings
+   */
+  private applyBindings(bindings: GestureBinding<A>[]): void {
+    this.bindings = bindings.map(binding => ({ ...binding }));
+  }
+
+  /**
+   * Notify listener of binding changes
+   */
+  private notifyChange(): void {
+    this.changeListener?.(this.getBindings());
+  }
+}
@@ -8,27 +8,102 @@ import {
   GestureState, 
   GestureEvent, 
   GestureType, 
-  GestureConfig 
+  GestureConfig,
+  GesturePhase,
+  ScreenEdge,
+  ShapeMatch,
+  ShapePoint,
+  FlingData,
+  Clock,
+  ClockTimer
 } from '../types/TouchTypes';
+import { ShapeRecognizer } from './ShapeRecognizer';
+import { VelocityTracker } from './VelocityTracker';
+import { systemClock } from './Clock';
+
+export const DEFAULT_LONG_PRESS_DURATION = 500;
+const DEFAULT_EDGE_INSET = 20;
+const DEFAULT_FORCE_TOUCH_THRESHOLD = 0.75;
+const DEFAULT_FORCE_TOUCH_RELEASE_THRESHOLD = 0.5;
+const DEFAULT_SHAPE_MIN_SCORE = 0.8;
+const DEFAULT_VELOCITY_WINDOW = 100;
+const DEFAULT_FLING_DECELERATION = 0.002;
+
+interface PointerState {
+  start: TouchPoint;
+  current: TouchPoint;
+}
+
+interface MultiTouchBaseline {
+  centroidX: number;
+  centroidY: number;
+  distance: number;
+  angle: number;
+  deltaX: number;
+  deltaY: number;
+  scale: number;
+  rotation: number;
+}
+
+interface PendingTap {
+  event: GestureEvent;
+  touch: TouchPoint;
+  // A second touch is down that may complete a double tap
+  isSecondTouchDown?: boolean;
+}
 
 export class GestureRecognizer {
   private config: GestureConfig;
   private gestureState: GestureState | null = null;
   private gestureCache: Map<string, any> = new Map();
   private isProcessing: boolean = false;
-
-  constructor(config: GestureConfig) {
+  private pendingTap: PendingTap | null = null;
+  private pendingTapTimer: ClockTimer | null = null;
+  private longPressTimer: ClockTimer | null = null;
+  private continuousGesture: GestureType | null = null;
+  private pointers: Map<number, PointerState> = new Map();
+  private baseline: MultiTouchBaseline | null = null;
+  private maxPointerCount: number = 0;
+  private viewportSize: { width: number; height: number } | null = null;
+  private pressureSupported: boolean = true;
+  private forceTouchArmed: boolean = true;
+  private stroke: ShapePoint[] = [];
+  private shapeRecognizer: ShapeRecognizer = new ShapeRecognizer();
+  private shapeMatch: ShapeMatch | null = null;
+  private velocityTracker: VelocityTracker = new VelocityTracker();
+  private gestureListener: ((event: GestureEvent) => void) | null = null;
+  // Timestamp of the latest touch, the time base of every gesture event
+  private lastTimestamp: number = 0;
+  private clock: Clock;
+
+  constructor(config: GestureConfig, clock: Clock = systemClock) {
     this.config = config;
+    this.clock = clock;
   }
 
   /**
    * Handle touch start event
    */
   public onTouchStart(touch: TouchPoint): void {
-    if (this.isProcessing) return;
+    this.lastTimestamp = touch.timestamp;
+    if (this.isProcessing) {
+      this.addPointer(touch);
+      return;
+    }
+
+    // A touch down in time and close to the held tap may complete a double tap,
+    // so hold the tap for as long as that touch stays down
+    if (this.pendingTap) {
+      if (this.canCompleteDoubleTap(this.pendingTap, touch)) {
+        this.pendingTap.isSecondTouchDown = true;
+        this.cancelPendingTapTimer();
+      } else {
+        this.flushPendingTap();
+      }
+    }
 
     this.gestureState = {
-      startTime: Date.now(),
+      startTime: touch.timestamp,
       startTouches: [touch],
       currentTouches: [touch],
       deltaX: 0,
@@ -37,11 +112,27 @@ export class GestureRecognizer {
       velocityY: 0,
       scale: 1,
       rotation: 0,
+      centroidX: touch.x,
+      centroidY: touch.y,
+      pressure: 0,
       isActive: true,
       isRecognized: false
     };
 
+    this.pointers.clear();
+    this.pointers.set(touch.identifier, { start: touch, current: touch });
+    this.maxPointerCount = 1;
+    this.resetBaseline();
+    this.stroke = [{ x: touch.x, y: touch.y }];
+    this.shapeMatch = null;
+    this.velocityTracker.reset();
+    this.velocityTracker.addSample(0, 0, touch.timestamp);
+
     this.isProcessing = true;
+    this.continuousGesture = null;
+    this.forceTouchArmed = true;
+    this.scheduleLongPress();
+    this.updatePressure(touch);
   }
 
   /**
@@ -49,31 +140,25 @@ export class GestureRecognizer {
    */
   public onTouchMove(touch: TouchPoint): GestureState | null {
     if (!this.gestureState || !this.isProcessing) return null;
+    this.lastTimestamp = touch.timestamp;
 
-    // Update current touches
-    const touchIndex = this.gestureState.currentTouches.findIndex(t => t.identifier === touch.identifier);
-    if (touchIndex >= 0) {
-      this.gestureState.currentTouches[touchIndex] = touch;
-    } else {
-      this.gestureState.currentTouches.push(touch);
-    }
+    const pointer = this.pointers.get(touch.identifier);
+    if (!pointer) return this.gestureState;
 
-    // Calculate deltas
-    const startTouch = this.gestureState.startTouches[0];
-    this.gestureState.deltaX = touch.x - startTouch.x;
-    this.gestureState.deltaY = touch.y - startTouch.y;
+    pointer.current = touch;
+    this.updatePointerProperties(touch);
+    this.recordStroke(touch);
 
-    // Calculate velocity
-    const timeDelta = touch.timestamp - startTouch.timestamp;
-    if (timeDelta > 0) {
-      this.gestureState.velocityX = this.gestureState.deltaX / timeDelta;
-      this.gestureState.velocityY = this.gestureState.deltaY / timeDelta;
+    // Moving past the tap slop or adding a finger rules out a long press
+    const distance = Math.sqrt(
+      Math.pow(this.gestureState.deltaX, 2) + Math.pow(this.gestureState.deltaY, 2)
+    );
+    if (distance >= this.config.minDistance || this.pointers.size > 1) {
+      this.cancelLongPress();
     }
 
-    // Handle multi-touch gestures
-    if (this.gestureState.currentTouches.length > 1) {
-      this.calculateMultiTouchProperties();
-    }
+    this.updateContinuousGesture();
+    this.updatePressure(touch);
 
     return this.gestureState;
   }
@@ -83,72 +168,556 @@ export class GestureRecognizer {
    */
   public onTouchEnd(touch: TouchPoint): GestureEvent | null {
     if (!this.gestureState || !this.isProcessing) return null;
-
-    // Remove touch from current touches
-    this.gestureState.currentTouches = this.gestureState.currentTouches.filter(
-      t => t.identifier !== touch.identifier
-    );
+    this.lastTimestamp = touch.timestamp;
+
+    // Take the final position into account, then stop tracking the pointer
+    const pointer = this.pointers.get(touch.identifier);
+    if (pointer) {
+      pointer.current = touch;
+      this.updatePointerProperties(touch);
+      this.recordStroke(touch);
+    }
+    this.removePointer(touch.identifier);
 
     // If all touches ended, recognize gesture
     if (this.gestureState.currentTouches.length === 0) {
-      const gestureType = this.recognizeGesture();
+      this.cancelLongPress();
+
+      // A long press already fired while the finger was down
+      const alreadyRecognized = this.gestureState.isRecognized;
+      const gestureType = alreadyRecognized ? null : this.recognizeGesture(touch);
+      const continuousGesture = this.continuousGesture;
+      this.gestureState.isActive = false;
+      this.isProcessing = false;
+      this.continuousGesture = null;
+
+      // End a continuous gesture that the final recognition did not confirm
+      if (continuousGesture && continuousGesture !== gestureType) {
+        this.emitPhase(continuousGesture, GesturePhase.ENDED);
+      }
+
       if (gestureType) {
         const gestureEvent: GestureEvent = {
           type: gestureType,
           state: { ...this.gestureState },
-          timestamp: Date.now()
+          timestamp: touch.timestamp
         };
 
+        if (gestureType === continuousGesture) {
+          gestureEvent.phase = GesturePhase.ENDED;
+        }
+
+        if (gestureType === GestureType.EDGE_SWIPE) {
+          gestureEvent.edge = this.detectSwipeEdge()!;
+        }
+
+        if (gestureType === GestureType.SHAPE) {
+          gestureEvent.shape = this.shapeMatch!;
+        }
+
+        if (this.isFlingable(gestureType)) {
+          const fling = this.calculateFling();
+          if (fling) {
+            gestureEvent.fling = fling;
+          }
+        }
+
         this.gestureState.isRecognized = true;
-        this.gestureState.isActive = false;
-        this.isProcessing = false;
 
+        if (gestureType === GestureType.TAP && this.isDoubleTapEnabled()) {
+          return this.resolveTapSequence(gestureEvent, touch);
+        }
+
+        this.releaseHeldTap();
         return gestureEvent;
       }
+
+      this.releaseHeldTap();
     }
 
     return null;
   }
 
   /**
-   * Calculate multi-touch properties (scale, rotation)
+   * Handle touch cancel event, abandoning the gesture without recognizing it
    */
-  private calculateMultiTouchProperties(): void {
-    if (this.gestureState!.currentTouches.length < 2) return;
+  public onTouchCancel(touch: TouchPoint): GestureEvent | null {
+    if (!this.gestureState || !this.isProcessing) return null;
+    this.lastTimestamp = touch.timestamp;
 
-    const touch1 = this.gestureState!.currentTouches[0];
-    const touch2 = this.gestureState!.currentTouches[1];
-    const startTouch1 = this.gestureState!.startTouches[0];
-    const startTouch2 = this.gestureState!.startTouches[1] || startTouch1;
+    const continuousGesture = this.continuousGesture;
+    this.pointers.clear();
+    this.gestureState.currentTouches = [];
+    this.gestureState.isActive = false;
+    this.isProcessing = false;
+    this.continuousGesture = null;
+    this.cancelLongPress();
+    this.releaseHeldTap();
 
-    // Calculate current distance
-    const currentDistance = Math.sqrt(
-      Math.pow(touch2.x - touch1.x, 2) + Math.pow(touch2.y - touch1.y, 2)
+    if (!continuousGesture) return null;
+
+    return {
+      type: continuousGesture,
+      state: { ...this.gestureState },
+      timestamp: touch.timestamp,
+      phase: GesturePhase.CANCELLED
+    };
+  }
+
+  /**
+   * Register listener for gestures recognized outside of a touch callback,
+   * such as a single tap released once the double tap interval has passed
+   * or the phases of a continuous gesture
+   */
+  public setGestureListener(listener: ((event: GestureEvent) => void) | null): void {
+    this.gestureListener = listener;
+  }
+
+  /**
+   * Begin, change or switch the continuous gesture in progress
+   */
+  private updateContinuousGesture(): void {
+    const detectedGesture = this.detectContinuousGesture();
+
+    if (this.continuousGesture && (!detectedGesture || detectedGesture === this.continuousGesture)) {
+      this.emitPhase(this.continuousGesture, GesturePhase.CHANGED);
+      return;
+    }
+
+    if (!detectedGesture) return;
+
+    if (this.continuousGesture) {
+      this.emitPhase(this.continuousGesture, GesturePhase.ENDED);
+    }
+
+    this.continuousGesture = detectedGesture;
+    this.emitPhase(detectedGesture, GesturePhase.BEGAN);
+  }
+
+  /**
+   * Detect which continuous gesture the current movement amounts to
+   */
+  private detectContinuousGesture(): GestureType | null {
+    if (!this.gestureState) return null;
+
+    if (this.gestureState.currentTouches.length > 1) {
+      return this.recognizeMultiTouchGesture();
+    }
+
+    const distance = Math.sqrt(
+      Math.pow(this.gestureState.deltaX, 2) + Math.pow(this.gestureState.deltaY, 2)
     );
 
-    // Calculate start distance
-    const startDistance = Math.sqrt(
-      Math.pow(startTouch2.x - startTouch1.x, 2) + Math.pow(startTouch2.y - startTouch1.y, 2)
+    return distance >= this.config.minDistance ? GestureType.PAN : null;
+  }
+
+  /**
+   * Emit a phase of a continuous gesture through the gesture listener
+   */
+  private emitPhase(gestureType: GestureType, phase: GesturePhase): void {
+    if (!this.gestureState) return;
+
+    this.releaseHeldTap();
+    this.gestureListener?.({
+      type: gestureType,
+      state: { ...this.gestureState },
+      timestamp: this.lastTimestamp,
+      phase
+    });
+  }
+
+  /**
+   * Start the timer that fires a long press while the finger is still down
+   */
+  private scheduleLongPress(): void {
+    this.cancelLongPress();
+
+    const duration = this.config.longPressDuration ?? DEFAULT_LONG_PRESS_DURATION;
+    this.longPressTimer = this.clock.setTimeout(() => {
+      this.longPressTimer = null;
+      if (!this.gestureState || !this.gestureState.isActive) return;
+
+      this.gestureState.isRecognized = true;
+      this.releaseHeldTap();
+      this.gestureListener?.({
+        type: this.getLongPressType(),
+        state: { ...this.gestureState },
+        // In the time base of the touches, which may differ from the clock's
+        timestamp: this.gestureState.startTime + duration
+      });
+    }, duration);
+  }
+
+  /**
+   * Get the gesture a long press reports, standing in for force touch on
+   * devices without pressure when configured to
+   */
+  private getLongPressType(): GestureType {
+    if (!this.pressureSupported && this.config.forceTouchFallback === 'long_press') {
+      return GestureType.FORCE_TOUCH;
+    }
+    return GestureType.LONG_PRESS;
+  }
+
+  /**
+   * Track normalised pressure of the primary pointer and fire force touch when
+   * it crosses the threshold, re-arming only once it drops below the release threshold
+   */
+  private updatePressure(touch: TouchPoint): void {
+    if (!this.gestureState || touch.identifier !== this.gestureState.startTouches[0].identifier) return;
+
+    const pressure = Math.max(0, Math.min(1, touch.pressure || 0));
+    this.gestureState.pressure = pressure;
+
+    if (!this.pressureSupported) return;
+
+    const threshold = this.config.forceTouchThreshold ?? DEFAULT_FORCE_TOUCH_THRESHOLD;
+    const releaseThreshold = Math.min(
+      threshold,
+      this.config.forceTouchReleaseThreshold ?? DEFAULT_FORCE_TOUCH_RELEASE_THRESHOLD
+    );
+
+    if (!this.forceTouchArmed) {
+      this.forceTouchArmed = pressure < releaseThreshold;
+      return;
+    }
+
+    // Only a stationary single finger counts as a hard press
+    if (pressure < threshold || this.pointers.size > 1 || this.continuousGesture) return;
+
+    this.forceTouchArmed = false;
+    this.cancelLongPress();
+    this.gestureState.isRecognized = true;
+    this.releaseHeldTap();
+    this.gestureListener?.({
+      type: GestureType.FORCE_TOUCH,
+      state: { ...this.gestureState },
+      timestamp: touch.timestamp
+    });
+  }
+
+  /**
+   * Set whether the device reports touch pressure
+   */
+  public setPressureSupported(supported: boolean): void {
+    this.pressureSupported = supported;
+  }
+
+  /**
+   * Get the template library used to recognize drawn shapes
+   */
+  public getShapeRecognizer(): ShapeRecognizer {
+    return this.shapeRecognizer;
+  }
+
+  /**
+   * Record the path of the first pointer for shape recognition
+   */
+  private recordStroke(touch: TouchPoint): void {
+    if (!this.gestureState || touch.identifier !== this.gestureState.startTouches[0].identifier) {
+      return;
+    }
+    this.stroke.push({ x: touch.x, y: touch.y });
+  }
+
+  /**
+   * Check if a gesture carries momentum when released
+   */
+  private isFlingable(gestureType: GestureType): boolean {
+    return [
+      GestureType.PAN,
+      GestureType.EDGE_SWIPE,
+      GestureType.SWIPE_LEFT,
+      GestureType.SWIPE_RIGHT,
+      GestureType.SWIPE_UP,
+      GestureType.SWIPE_DOWN
+    ].includes(gestureType);
+  }
+
+  /**
+   * Project where the gesture would come to rest under constant deceleration
+   */
+  private calculateFling(): FlingData | null {
+    if (!this.gestureState) return null;
+
+    const { velocityX, velocityY, centroidX, centroidY } = this.gestureState;
+    const speed = Math.sqrt(velocityX * velocityX + velocityY * velocityY);
+    if (speed === 0) return null;
+
+    const deceleration = this.config.flingDeceleration ?? DEFAULT_FLING_DECELERATION;
+    const distance = (speed * speed) / (2 * deceleration);
+
+    return {
+      velocityX,
+      velocityY,
+      speed,
+      direction: Math.atan2(velocityY, velocityX) * (180 / Math.PI),
+      projectedX: centroidX + (velocityX / speed) * distance,
+      projectedY: centroidY + (velocityY / speed) * distance,
+      duration: speed / deceleration
+    };
+  }
+
+  /**
+   * Get the farthest distance the stroke went from its starting point
+   */
+  private getStrokeExtent(): number {
+    const start = this.stroke[0];
+    if (!start) return 0;
+
+    return this.stroke.reduce(
+      (extent, point) =>
+        Math.max(extent, Math.sqrt(Math.pow(point.x - start.x, 2) + Math.pow(point.y - start.y, 2))),
+      0
+    );
+  }
+
+  /**
+   * Match the recorded stroke against the shape templates
+   */
+  private matchShape(): ShapeMatch | null {
+    if (this.maxPointerCount > 1 || !this.shapeRecognizer.hasTemplates()) return null;
+
+    const match = this.shapeRecognizer.recognize(this.stroke);
+    const minScore = this.config.shapeMinScore ?? DEFAULT_SHAPE_MIN_SCORE;
+    return match && match.score >= minScore ? match : null;
+  }
+
+  /**
+   * Cancel a scheduled long press
+   */
+  private cancelLongPress(): void {
+    if (this.longPressTimer) {
+      this.clock.clearTimeout(this.longPressTimer);
+      this.longPressTimer = null;
+    }
+  }
+
+  /**
+   * Check if taps should be held back to detect a double tap
+   */
+  private isDoubleTapEnabled(): boolean {
+    return (this.config.doubleTapInterval || 0) > 0;
+  }
+
+  /**
+   * Pair a tap with the held tap or hold it until the double tap interval passes
+   */
+  private resolveTapSequence(tapEvent: GestureEvent, touch: TouchPoint): GestureEvent | null {
+    const previousTap = this.pendingTap;
+
+    if (previousTap) {
+      // The second touch went down in time and close enough, however long it was held
+      if (previousTap.isSecondTouchDown && this.isWithinDoubleTapSlop(previousTap, touch)) {
+        this.clearPendingTap();
+        return {
+          ...tapEvent,
+          type: GestureType.DOUBLE_TAP,
+          state: { ...tapEvent.state, startTouches: previousTap.event.state.startTouches }
+        };
+      }
+
+      this.flushPendingTap();
+    }
+
+    this.pendingTap = { event: tapEvent, touch };
+    this.pendingTapTimer = this.clock.setTimeout(() => this.flushPendingTap(), this.config.doubleTapInterval!);
+
+    return null;
+  }
+
+  /**
+   * Check if a touch goes down soon enough after the held tap was released,
+   * and close enough to it, to form a double tap
+   */
+  private canCompleteDoubleTap(pendingTap: PendingTap, touch: TouchPoint): boolean {
+    const interval = touch.timestamp - pendingTap.touch.timestamp;
+    return interval <= this.config.doubleTapInterval! && this.isWithinDoubleTapSlop(pendingTap, touch);
+  }
+
+  /**
+   * Emit the held tap before another gesture once the second touch turns out not to be a tap
+   */
+  private releaseHeldTap(): void {
+    if (this.pendingTap?.isSecondTouchDown) {
+      this.flushPendingTap();
+    }
+  }
+
+  /**
+   * Check if a touch lands close enough to the held tap to form a double tap
+   */
+  private isWithinDoubleTapSlop(pendingTap: PendingTap, touch: TouchPoint): boolean {
+    const tapTouch = pendingTap.event.state.startTouches[0];
+    const slop = this.config.doubleTapSlop ?? this.config.minDistance;
+
+    return Math.sqrt(Math.pow(touch.x - tapTouch.x, 2) + Math.pow(touch.y - tapTouch.y, 2)) <= slop;
+  }
+
+  /**
+   * Emit the held tap as a single tap
+   */
+  private flushPendingTap(): void {
+    const pendingTap = this.pendingTap;
+    this.clearPendingTap();
+
+    if (pendingTap) {
+      this.gestureListener?.(pendingTap.event);
+    }
+  }
+
+  /**
+   * Drop the held tap without emitting it
+   */
+  private clearPendingTap(): void {
+    this.cancelPendingTapTimer();
+    this.pendingTap = null;
+  }
+
+  /**
+   * Stop the timer that would emit the held tap as a single tap
+   */
+  private cancelPendingTapTimer(): void {
+    if (this.pendingTapTimer) {
+      this.clock.clearTimeout(this.pendingTapTimer);
+      this.pendingTapTimer = null;
+    }
+  }
+
+  /**
+   * Start tracking an additional pointer during a gesture
+   */
+  private addPointer(touch: TouchPoint): void {
+    if (!this.gestureState || this.pointers.has(touch.identifier)) return;
+
+    this.pointers.set(touch.identifier, { start: touch, current: touch });
+    this.gestureState.startTouches.push(touch);
+    this.gestureState.currentTouches = this.getActiveTouches();
+    this.maxPointerCount = Math.max(this.maxPointerCount, this.pointers.size);
+
+    this.cancelLongPress();
+    this.resetBaseline();
+  }
+
+  /**
+   * Stop tracking a pointer, keeping the gesture continuous for the remaining ones
+   */
+  private removePointer(identifier: number): void {
+    if (!this.gestureState || !this.pointers.delete(identifier)) return;
+
+    this.gestureState.currentTouches = this.getActiveTouches();
+    if (this.pointers.size > 0) {
+      this.resetBaseline();
+    }
+  }
+
+  /**
+   * Get current touch of every tracked pointer in the order they went down
+   */
+  private getActiveTouches(): TouchPoint[] {
+    return Array.from(this.pointers.values()).map(pointer => pointer.current);
+  }
+
+  /**
+   * Fold the current values into a new baseline so that adding or removing
+   * a pointer does not make translation, scale or rotation jump
+   */
+  private resetBaseline(): void {
+    if (!this.gestureState) return;
+
+    const touches = this.getActiveTouches();
+    const centroid = this.calculateCentroid(touches);
+    const [touch1, touch2] = touches;
+
+    this.baseline = {
+      centroidX: centroid.x,
+      centroidY: centroid.y,
+      distance: touch2 ? Math.sqrt(Math.pow(touch2.x - touch1.x, 2) + Math.pow(touch2.y - touch1.y, 2)) : 0,
+      angle: touch2 ? Math.atan2(touch2.y - touch1.y, touch2.x - touch1.x) : 0,
+      deltaX: this.gestureState.deltaX,
+      deltaY: this.gestureState.deltaY,
+      scale: this.gestureState.scale,
+      rotation: this.gestureState.rotation
+    };
+  }
+
+  /**
+   * Calculate translation, velocity, centroid, scale and rotation from the tracked pointers
+   */
+  private updatePointerProperties(touch: TouchPoint): void {
+    if (!this.gestureState || !this.baseline) return;
+
+    const touches = this.getActiveTouches();
+    const centroid = this.calculateCentroid(touches);
+    this.gestureState.currentTouches = touches;
+    this.gestureState.centroidX = centroid.x;
+    this.gestureState.centroidY = centroid.y;
+
+    // Calculate deltas from the centroid so multi-finger drags pan smoothly
+    this.gestureState.deltaX = this.baseline.deltaX + centroid.x - this.baseline.centroidX;
+    this.gestureState.deltaY = this.baseline.deltaY + centroid.y - this.baseline.centroidY;
+
+    // Calculate velocity over the most recent movement only, so that a
+    // flick at the end of a slow drag still reads as fast
+    this.velocityTracker.addSample(this.gestureState.deltaX, this.gestureState.deltaY, touch.timestamp);
+    const velocity = this.velocityTracker.getVelocity(
+      this.config.velocityWindow ?? DEFAULT_VELOCITY_WINDOW,
+      this.config.velocityEstimation
     );
+    this.gestureState.velocityX = velocity.x;
+    this.gestureState.velocityY = velocity.y;
+
+    // Handle multi-touch gestures
+    if (touches.length > 1) {
+      this.calculateMultiTouchProperties(touches);
+    }
+  }
+
+  /**
+   * Calculate multi-touch properties (scale, rotation) from the first two pointers
+   */
+  private calculateMultiTouchProperties(touches: TouchPoint[]): void {
+    if (!this.gestureState || !this.baseline || touches.length < 2) return;
+
+    const [touch1, touch2] = touches;
 
     // Calculate scale
-    if (startDistance > 0) {
-      this.gestureState!.scale = currentDistance / startDistance;
+    const currentDistance = Math.sqrt(
+      Math.pow(touch2.x - touch1.x, 2) + Math.pow(touch2.y - touch1.y, 2)
+    );
+    if (this.baseline.distance > 0) {
+      this.gestureState.scale = this.baseline.scale * (currentDistance / this.baseline.distance);
     }
 
-    // Calculate rotation
+    // Calculate rotation, taking the shortest way around
     const currentAngle = Math.atan2(touch2.y - touch1.y, touch2.x - touch1.x);
-    const startAngle = Math.atan2(startTouch2.y - startTouch1.y, startTouch2.x - startTouch1.x);
-    this.gestureState!.rotation = (currentAngle - startAngle) * (180 / Math.PI);
+    let angleDelta = (currentAngle - this.baseline.angle) * (180 / Math.PI);
+    if (angleDelta > 180) angleDelta -= 360;
+    if (angleDelta < -180) angleDelta += 360;
+    this.gestureState.rotation = this.baseline.rotation + angleDelta;
+  }
+
+  /**
+   * Calculate centroid of touch points
+   */
+  private calculateCentroid(touches: TouchPoint[]): { x: number; y: number } {
+    if (touches.length === 0) {
+      return { x: this.gestureState?.centroidX || 0, y: this.gestureState?.centroidY || 0 };
+    }
+
+    return {
+      x: touches.reduce((sum, touch) => sum + touch.x, 0) / touches.length,
+      y: touches.reduce((sum, touch) => sum + touch.y, 0) / touches.length
+    };
   }
 
   /**
    * Recognize gesture type based on current state
    */
-  private recognizeGesture(): GestureType | null {
+  private recognizeGesture(endTouch: TouchPoint): GestureType | null {
     if (!this.gestureState) return null;
 
-    const duration = Date.now() - this.gestureState.startTime;
+    const duration = endTouch.timestamp - this.gestureState.startTouches[0].timestamp;
     const distance = Math.sqrt(
       Math.pow(this.gestureState.deltaX, 2) + Math.pow(this.gestureState.deltaY, 2)
     );
@@ -156,19 +725,38 @@ export class GestureRecognizer {
       Math.pow(this.gestureState.velocityX, 2) + Math.pow(this.gestureState.velocityY, 2)
     );
 
+    // Check for multi-touch gestures
+    if (this.maxPointerCount > 1) {
+      const multiTouchGesture = this.recognizeMultiTouchGesture();
+      if (multiTouchGesture) {
+        return multiTouchGesture;
+      }
+    }
+
+    // A stroke that returns to where it started has still moved
+    const isStationary =
+      distance < this.config.minDistance && this.getStrokeExtent() < this.config.minDistance;
+
+    // Check for long press released before its timer could fire
+    const longPressDuration = this.config.longPressDuration ?? DEFAULT_LONG_PRESS_DURATION;
+    if (isStationary && duration >= longPressDuration) {
+      return this.getLongPressType();
+    }
+
     // Check for tap gestures
-    if (distance < this.config.minDistance && duration < this.config.maxDuration) {
+    if (isStationary && duration < this.config.maxDuration) {
       return GestureType.TAP;
     }
 
-    // Check for long press
-    if (distance < this.config.minDistance && duration > this.config.minDuration) {
-      return GestureType.LONG_PRESS;
+    // Check for drawn shapes before treating the stroke as a swipe or pan
+    this.shapeMatch = this.matchShape();
+    if (this.shapeMatch) {
+      return GestureType.SHAPE;
     }
 
-    // Check for swipe gestures
+    // Check for swipe gestures, starting from a screen edge or anywhere else
     if (velocity > this.config.velocityThreshold && distance > this.config.minDistance) {
-      return this.recognizeSwipeDirection();
+      return this.detectSwipeEdge() ? GestureType.EDGE_SWIPE : this.recognizeSwipeDirection();
     }
 
     // Check for pan gesture
@@ -176,11 +764,6 @@ export class GestureRecognizer {
       return GestureType.PAN;
     }
 
-    // Check for multi-touch gestures
-    if (this.gestureState.currentTouches.length > 1) {
-      return this.recognizeMultiTouchGesture();
-    }
-
     return null;
   }
 
@@ -220,17 +803,32 @@ export class GestureRecognizer {
   }
 
   /**
-   * Check for edge swipe gesture
+   * Detect the screen edge a swipe started from, if it moved inward from it
    */
-  private isEdgeSwipe(touch: TouchPoint, screenWidth: number, screenHeight: number): boolean {
-    const edgeThreshold = 50; // pixels from edge
-    
-    return (
-      touch.x < edgeThreshold || 
-      touch.x > screenWidth - edgeThreshold ||
-      touch.y < edgeThreshold || 
-      touch.y > screenHeight - edgeThreshold
-    );
+  private detectSwipeEdge(): ScreenEdge | null {
+    if (!this.gestureState || !this.viewportSize || this.maxPointerCount > 1) return null;
+
+    const { width, height } = this.viewportSize;
+    const { deltaX, deltaY } = this.gestureState;
+    const touch = this.gestureState.startTouches[0];
+    const edgeInset = this.config.edgeInset ?? DEFAULT_EDGE_INSET;
+
+    if (Math.abs(deltaX) > Math.abs(deltaY)) {
+      if (touch.x <= edgeInset && deltaX > 0) return ScreenEdge.LEFT;
+      if (touch.x >= width - edgeInset && deltaX < 0) return ScreenEdge.RIGHT;
+    } else {
+      if (touch.y <= edgeInset && deltaY > 0) return ScreenEdge.TOP;
+      if (touch.y >= height - edgeInset && deltaY < 0) return ScreenEdge.BOTTOM;
+    }
+
+    return null;
+  }
+
+  /**
+   * Set the viewport size used to detect edge swipes
+   */
+  public setViewportSize(width: number, height: number): void {
+    this.viewportSize = { width, height };
   }
 
   /**
@@ -244,6 +842,14 @@ export class GestureRecognizer {
    * Reset gesture recognizer
    */
   public reset(): void {
+    this.clearPendingTap();
+    this.cancelLongPress();
+    this.continuousGesture = null;
+    this.pointers.clear();
+    this.baseline = null;
+    this.stroke = [];
+    this.shapeMatch = null;
+    this.velocityTracker.reset();
     this.gestureState = null;
     this.isProcessing = false;
   }
@@ -268,5 +874,6 @@ export class GestureRecognizer {
   public destroy(): void {
     this.gestureCache.clear();
     this.reset();
+    this.gestureListener = null;
   }
 }
\ No newline at end of file
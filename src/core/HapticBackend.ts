@@ -0,0 +1,106 @@
+/**
+ * Haptic Backend
+ * Maps haptic feedback types to platform haptics and plays them
+ */
+
+import { Platform } from 'react-native';
+import { trigger } from 'react-native-haptic-feedback';
+import { HapticBackend, HapticFeedback, HapticType, TouchControlConfig } from '../types/TouchTypes';
+
+type HapticPlatform = TouchControlConfig['platform'];
+
+// Impact haptics from weakest to strongest
+const IMPACT_PATTERNS: Partial<Record<HapticPlatform, string[]>> = {
+  ios: ['impactLight', 'impactMedium', 'impactHeavy'],
+  android: ['effectTick', 'effectClick', 'effectHeavyClick']
+};
+
+// Strength of each impact type at full intensity, as an index into the impact patterns
+const IMPACT_STRENGTHS: Partial<Record<HapticType, number>> = {
+  [HapticType.LIGHT]: 0,
+  [HapticType.MEDIUM]: 1,
+  [HapticType.IMPACT]: 1,
+  [HapticType.HEAVY]: 2
+};
+
+// Haptics that keep their pattern at any intensity, so they stay recognizable
+const FIXED_PATTERNS: Partial<Record<HapticPlatform, Partial<Record<HapticType, string>>>> = {
+  ios: {
+    [HapticType.SELECTION]: 'selection',
+    [HapticType.ROTATION]: 'soft',
+    [HapticType.SUCCESS]: 'notificationSuccess',
+    [HapticType.WARNING]: 'notificationWarning',
+    [HapticType.ERROR]: 'notificationError'
+  },
+  android: {
+    [HapticType.SELECTION]: 'clockTick',
+    [HapticType.ROTATION]: 'contextClick',
+    [HapticType.SUCCESS]: 'notificationSuccess',
+    [HapticType.WARNING]: 'notificationWarning',
+    [HapticType.ERROR]: 'notificationError'
+  }
+};
+
+/**
+ * Get the platform haptic for a haptic type at an intensity from 0 to 1.
+ * Impacts get weaker as the intensity drops; nothing plays at intensity 0
+ * or on platforms without haptics.
+ */
+export function getHapticPattern(
+  type: HapticType,
+  intensity: number,
+  platform: HapticPlatform = Platform.OS as HapticPlatform
+): string | null {
+  if (intensity <= 0) return null;
+
+  const strength = IMPACT_STRENGTHS[type];
+  const impactPatterns = IMPACT_PATTERNS[platform];
+  if (strength !== undefined) {
+    return impactPatterns ? impactPatterns[Math.round(strength * Math.min(1, intensity))] : null;
+  }
+
+  return FIXED_PATTERNS[platform]?.[type] || null;
+}
+
+/**
+ * Plays haptics through react-native-haptic-feedback
+ */
+export class NativeHapticBackend implements HapticBackend {
+  /**
+   * Play a haptic, vibrating instead on devices without haptic hardware
+   */
+  public trigger(feedback: HapticFeedback): void {
+    trigger(feedback.pattern as Parameters<typeof trigger>[0], {
+      enableVibrateFallback: true,
+      ignoreAndroidSystemSettings: false
+    });
+  }
+}
+
+/**
+ * Records haptics instead of playing them, so tests can assert which fired
+ */
+export class RecordingHapticBackend implements HapticBackend {
+  private triggered: HapticFeedback[] = [];
+
+  /**
+   * Record a haptic
+   */
+  public trigger(feedback: HapticFeedback): void {
+    this.triggered.push({ ...feedback });
+  }
+
+  /**
+   * Get the haptics recorded so far, oldest first
+   */
+  public getTriggered(): HapticFeedback[] {
+    return [...this.triggered];
+  }
+
+  /**
+   * Forget the recorded haptics
+   */
+  public clear(): void {
+    this.triggered = [];
+  }
+}
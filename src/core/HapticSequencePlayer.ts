@@ -0,0 +1,162 @@
+/**
+ * Haptic Sequence Player
+ * Plays haptic sequences step by step, one sequence at a time
+ */
+
+import { systemClock } from './Clock';
+import { Clock, ClockTimer, HapticEnvelopePoint, HapticSequence, HapticType } from '../types/TouchTypes';
+
+/**
+ * Check that a sequence can be played, returning why not or null
+ */
+export function validateHapticSequence(sequence: HapticSequence): string | null {
+  if (!sequence.steps.some(step => 'pulse' in step)) {
+    return 'has no pulses';
+  }
+  if (sequence.steps.some(step => 'pause' in step && !(step.pause >= 0))) {
+    return 'has a negative pause';
+  }
+
+  // Loops are flagged rather than given an infinite count, which JSON can't hold
+  const repeat = sequence.repeat ?? 1;
+  if (!Number.isInteger(repeat) || repeat < 1) {
+    return 'has an invalid repeat count';
+  }
+
+  // A repeating sequence without pauses would play every repetition at once
+  const length = sequence.steps.reduce((total, step) => total + ('pause' in step ? step.pause : 0), 0);
+  if ((sequence.loop || repeat > 1) && length <= 0) {
+    return 'repeats without pausing';
+  }
+
+  return null;
+}
+
+/**
+ * Get the envelope intensity `time` milliseconds into a repetition, holding
+ * the first and last points beyond the envelope
+ */
+export function getEnvelopeIntensity(envelope: HapticEnvelopePoint[] | undefined, time: number): number {
+  if (!envelope || envelope.length === 0) return 1;
+
+  const points = [...envelope].sort((a, b) => a.time - b.time);
+  if (time <= points[0].time) return points[0].intensity;
+
+  for (let index = 1; index < points.length; index++) {
+    const previous = points[index - 1];
+    const next = points[index];
+    if (time <= next.time) {
+      const span = next.time - previous.time;
+      const progress = span > 0 ? (time - previous.time) / span : 1;
+      return previous.intensity + (next.intensity - previous.intensity) * progress;
+    }
+  }
+
+  return points[points.length - 1].intensity;
+}
+
+interface PlayingSequence {
+  name: string;
+  sequence: HapticSequence;
+  priority: number;
+  stepIndex: number;
+  repetition: number;
+  repetitionStart: number;
+  timer: ClockTimer | null;
+}
+
+export class HapticSequencePlayer {
+  private playPulse: (type: HapticType, intensity: number) => void;
+  private clock: Clock;
+  private playing: PlayingSequence | null = null;
+
+  constructor(playPulse: (type: HapticType, intensity: number) => void, clock: Clock = systemClock) {
+    this.playPulse = playPulse;
+    this.clock = clock;
+  }
+
+  /**
+   * Play a sequence, stopping the playing one. Returns false if the sequence
+   * is invalid or a sequence of higher priority is playing.
+   */
+  public play(sequence: HapticSequence, name: string = 'sequence'): boolean {
+    if (validateHapticSequence(sequence)) return false;
+
+    const priority = sequence.priority ?? 0;
+    if (this.playing && this.playing.priority > priority) {
+      return false;
+    }
+
+    this.cancel();
+    const playing: PlayingSequence = {
+      name,
+      sequence,
+      priority,
+      stepIndex: 0,
+      repetition: 0,
+      repetitionStart: this.clock.now(),
+      timer: null
+    };
+    this.playing = playing;
+    this.playSteps(playing);
+    return true;
+  }
+
+  /**
+   * Stop the playing sequence, or only the named one
+   */
+  public cancel(name?: string): void {
+    if (!this.playing || (name !== undefined && this.playing.name !== name)) return;
+
+    if (this.playing.timer !== null) {
+      this.clock.clearTimeout(this.playing.timer);
+    }
+    this.playing = null;
+  }
+
+  /**
+   * Check if a sequence is playing
+   */
+  public isPlaying(): boolean {
+    return this.playing !== null;
+  }
+
+  /**
+   * Get the name of the playing sequence
+   */
+  public getPlayingName(): string | null {
+    return this.playing ? this.playing.name : null;
+  }
+
+  /**
+   * Play pulses up to the next pause, then wait out the pause
+   */
+  private playSteps(playing: PlayingSequence): void {
+    const { sequence } = playing;
+    const repeat = sequence.repeat ?? 1;
+
+    while (this.playing === playing) {
+      if (playing.stepIndex >= sequence.steps.length) {
+        playing.repetition++;
+        if (!sequence.loop && playing.repetition >= repeat) {
+          this.playing = null;
+          return;
+        }
+        playing.stepIndex = 0;
+        playing.repetitionStart = this.clock.now();
+      }
+
+      const step = sequence.steps[playing.stepIndex++];
+      if ('pause' in step) {
+        playing.timer = this.clock.setTimeout(() => {
+          playing.timer = null;
+          this.playSteps(playing);
+        }, step.pause);
+        return;
+      }
+
+      const envelope = getEnvelopeIntensity(sequence.envelope, this.clock.now() - playing.repetitionStart);
+      this.playPulse(step.pulse, (step.intensity ?? 1) * envelope);
+    }
+  }
+}
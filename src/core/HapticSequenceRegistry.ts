@@ -0,0 +1,124 @@
+/**
+ * Haptic Sequence Registry
+ * Names haptic sequences and binds them to gestures and app events
+ */
+
+import { validateHapticSequence } from './HapticSequencePlayer';
+import { GestureName, HapticSequence, HapticType } from '../types/TouchTypes';
+
+/**
+ * Sequences for common game events. Bind them to app events, such as
+ * `heartbeat` to low health, to play them with `FeedbackManager.triggerHapticEvent`.
+ */
+export const defaultHapticSequences: Record<string, HapticSequence> = {
+  heartbeat: {
+    steps: [
+      { pulse: HapticType.HEAVY },
+      { pause: 120 },
+      { pulse: HapticType.MEDIUM, intensity: 0.7 },
+      { pause: 700 }
+    ],
+    loop: true
+  },
+  staccato: {
+    steps: [
+      { pulse: HapticType.HEAVY },
+      { pause: 40 },
+      { pulse: HapticType.HEAVY },
+      { pause: 40 },
+      { pulse: HapticType.HEAVY }
+    ],
+    envelope: [
+      { time: 0, intensity: 1 },
+      { time: 80, intensity: 0.4 }
+    ],
+    priority: 2
+  },
+  ramp: {
+    steps: [
+      { pulse: HapticType.LIGHT },
+      { pause: 60 },
+      { pulse: HapticType.LIGHT },
+      { pause: 60 },
+      { pulse: HapticType.LIGHT },
+      { pause: 60 },
+      { pulse: HapticType.LIGHT }
+    ],
+    envelope: [
+      { time: 0, intensity: 0.3 },
+      { time: 180, intensity: 1 }
+    ]
+  },
+  alarm: {
+    steps: [
+      { pulse: HapticType.ERROR },
+      { pause: 300 },
+      { pulse: HapticType.ERROR }
+    ],
+    priority: 3
+  }
+};
+
+export class HapticSequenceRegistry {
+  private sequences: Map<string, HapticSequence> = new Map();
+  private bindings: Map<GestureName, string> = new Map();
+
+  constructor(sequences: Record<string, HapticSequence> = defaultHapticSequences) {
+    Object.entries(sequences).forEach(([name, sequence]) => this.register(name, sequence));
+  }
+
+  /**
+   * Name a sequence, replacing any sequence of the same name. Returns false
+   * if the sequence is invalid.
+   */
+  public register(name: string, sequence: HapticSequence): boolean {
+    if (validateHapticSequence(sequence)) return false;
+
+    this.sequences.set(name, sequence);
+    return true;
+  }
+
+  /**
+   * Remove a sequence and its bindings
+   */
+  public unregister(name: string): void {
+    this.sequences.delete(name);
+    this.bindings.forEach((sequenceName, event) => {
+      if (sequenceName === name) {
+        this.bindings.delete(event);
+      }
+    });
+  }
+
+  /**
+   * Get a sequence by name
+   */
+  public get(name: string): HapticSequence | null {
+    return this.sequences.get(name) || null;
+  }
+
+  /**
+   * Play a sequence for a gesture type or app event, replacing its usual
+   * haptic. Returns false if the sequence is not registered.
+   */
+  public bind(event: GestureName, sequenceName: string): boolean {
+    if (!this.sequences.has(sequenceName)) return false;
+
+    this.bindings.set(event, sequenceName);
+    return true;
+  }
+
+  /**
+   * Remove the sequence bound to a gesture type or app event
+   */
+  public unbind(event: GestureName): void {
+    this.bindings.delete(event);
+  }
+
+  /**
+   * Get the name of the sequence bound to a gesture type or app event
+   */
+  public getBinding(event: GestureName): string | null {
+    return this.bindings.get(event) || null;
+  }
+}
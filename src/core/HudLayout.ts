@@ -0,0 +1,305 @@
+/**
+ * HUD Layout
+ * Anchored, safe-area-aware positions and sizes of on-screen action buttons
+ */
+
+import {
+  HudAnchor,
+  HudButtonLayout,
+  HudButtonRect,
+  SafeAreaInsets,
+  StorageAdapter
+} from '../types/TouchTypes';
+
+const LAYOUT_VERSION = 1;
+const DEFAULT_STORAGE_KEY = 'touch-controls/hud-layout';
+const DEFAULT_MIN_BUTTON_SIZE = 44;
+const DEFAULT_MAX_BUTTON_SIZE = 120;
+
+// Anchors by row (top, middle, bottom) and column (left, center, right)
+const ANCHOR_GRID: HudAnchor[][] = [
+  [HudAnchor.TOP_LEFT, HudAnchor.TOP, HudAnchor.TOP_RIGHT],
+  [HudAnchor.LEFT, HudAnchor.CENTER, HudAnchor.RIGHT],
+  [HudAnchor.BOTTOM_LEFT, HudAnchor.BOTTOM, HudAnchor.BOTTOM_RIGHT]
+];
+
+interface HudLayoutOptions {
+  storage?: StorageAdapter;
+  storageKey?: string;
+  minButtonSize?: number;
+  maxButtonSize?: number;
+}
+
+interface StoredHudLayout {
+  version: number;
+  buttons: HudButtonLayout[];
+}
+
+export class HudLayout {
+  private defaults: HudButtonLayout[];
+  private buttons: Map<string, HudButtonLayout> = new Map();
+  private viewport: { width: number; height: number } = { width: 0, height: 0 };
+  private insets: SafeAreaInsets = { top: 0, right: 0, bottom: 0, left: 0 };
+  private storage: StorageAdapter | null;
+  private storageKey: string;
+  private minButtonSize: number;
+  private maxButtonSize: number;
+  private changeListener: ((buttons: HudButtonLayout[]) => void) | null = null;
+
+  constructor(defaults: HudButtonLayout[], options: HudLayoutOptions = {}) {
+    this.defaults = defaults.map(button => ({ ...button }));
+    this.storage = options.storage || null;
+    this.storageKey = options.storageKey || DEFAULT_STORAGE_KEY;
+    this.minButtonSize = options.minButtonSize ?? DEFAULT_MIN_BUTTON_SIZE;
+    this.maxButtonSize = options.maxButtonSize ?? DEFAULT_MAX_BUTTON_SIZE;
+    this.applyButtons(this.defaults);
+  }
+
+  /**
+   * Set the screen size and the insets of the area buttons must stay within
+   */
+  public setViewport(width: number, height: number, insets?: SafeAreaInsets): void {
+    this.viewport = { width, height };
+    if (insets) {
+      this.insets = { ...insets };
+    }
+    this.notifyChange();
+  }
+
+  /**
+   * Get the layout of every button
+   */
+  public getButtons(): HudButtonLayout[] {
+    return Array.from(this.buttons.values()).map(button => ({ ...button }));
+  }
+
+  /**
+   * Get the layout of a button
+   */
+  public getButton(id: string): HudButtonLayout | null {
+    const button = this.buttons.get(id);
+    return button ? { ...button } : null;
+  }
+
+  /**
+   * Get the screen rectangle of a button
+   */
+  public getButtonRect(id: string): HudButtonRect | null {
+    const button = this.buttons.get(id);
+    if (!button) return null;
+
+    const anchorPoint = this.getAnchorPoint(button.anchor);
+    return {
+      x: anchorPoint.x + button.offsetX - button.size / 2,
+      y: anchorPoint.y + button.offsetY - button.size / 2,
+      width: button.size,
+      height: button.size
+    };
+  }
+
+  /**
+   * Move a button's center to a screen position, keeping it inside the safe
+   * area and anchoring it to the nearest part of the screen. Returns false if
+   * the button doesn't exist.
+   */
+  public moveButton(id: string, centerX: number, centerY: number): boolean {
+    const button = this.buttons.get(id);
+    if (!button) return false;
+
+    const safeArea = this.getSafeArea();
+    const halfSize = button.size / 2;
+    const x = this.clamp(centerX, safeArea.left + halfSize, safeArea.right - halfSize);
+    const y = this.clamp(centerY, safeArea.top + halfSize, safeArea.bottom - halfSize);
+
+    const anchor = ANCHOR_GRID[this.getThird(y, safeArea.top, safeArea.bottom)][
+      this.getThird(x, safeArea.left, safeArea.right)
+    ];
+    const anchorPoint = this.getAnchorPoint(anchor);
+
+    this.buttons.set(id, {
+      ...button,
+      anchor,
+      offsetX: x - anchorPoint.x,
+      offsetY: y - anchorPoint.y
+    });
+    this.notifyChange();
+    return true;
+  }
+
+  /**
+   * Resize a button within the allowed button sizes. Returns false if the
+   * button doesn't exist.
+   */
+  public resizeButton(id: string, size: number): boolean {
+    const button = this.buttons.get(id);
+    if (!button) return false;
+
+    this.buttons.set(id, {
+      ...button,
+      size: this.clamp(size, this.minButtonSize, this.maxButtonSize)
+    });
+    this.notifyChange();
+    return true;
+  }
+
+  /**
+   * Restore the default layout
+   */
+  public resetToDefaults(): void {
+    this.applyButtons(this.defaults);
+    this.notifyChange();
+  }
+
+  /**
+   * Save the layout to storage
+   */
+  public async save(): Promise<void> {
+    if (!this.storage) return;
+
+    const stored: StoredHudLayout = {
+      version: LAYOUT_VERSION,
+      buttons: this.getButtons()
+    };
+    await this.storage.setItem(this.storageKey, JSON.stringify(stored));
+  }
+
+  /**
+   * Load a saved layout, returning whether one was applied. Buttons missing
+   * from the saved layout, or saved in a form that isn't a layout, keep their
+   * defaults.
+   */
+  public async load(): Promise<boolean> {
+    if (!this.storage) return false;
+
+    try {
+      const value = await this.storage.getItem(this.storageKey);
+      if (!value) return false;
+
+      const stored: StoredHudLayout = JSON.parse(value);
+      if (stored.version !== LAYOUT_VERSION || !Array.isArray(stored.buttons)) {
+        return false;
+      }
+
+      const savedButtons = new Map<string, unknown>(
+        stored.buttons.filter(this.isButtonLayout).map(button => [button.id, button])
+      );
+      this.applyButtons(this.defaults.map(button => this.restoreButton(button, savedButtons.get(button.id))));
+    } catch (error) {
+      // Unreadable storage or a corrupt saved layout leaves the current one in place
+      return false;
+    }
+
+    this.notifyChange();
+    return true;
+  }
+
+  /**
+   * Remove the saved layout and restore the defaults
+   */
+  public async clearSaved(): Promise<void> {
+    this.resetToDefaults();
+    await this.storage?.removeItem(this.storageKey);
+  }
+
+  /**
+   * Set listener called whenever button layouts change
+   */
+  public setChangeListener(listener: ((buttons: HudButtonLayout[]) => void) | null): void {
+    this.changeListener = listener;
+  }
+
+  /**
+   * Check if a saved entry is a button layout
+   */
+  private isButtonLayout(value: unknown): value is HudButtonLayout {
+    const button = value as Partial<HudButtonLayout> | null;
+    return (
+      typeof button === 'object' &&
+      button !== null &&
+      typeof button.id === 'string' &&
+      Object.values(HudAnchor).includes(button.anchor as HudAnchor) &&
+      Number.isFinite(button.offsetX) &&
+      Number.isFinite(button.offsetY) &&
+      Number.isFinite(button.size)
+    );
+  }
+
+  /**
+   * Get a button's saved layout with its size in the allowed range and, once
+   * the screen size is known, its center inside the safe area
+   */
+  private restoreButton(button: HudButtonLayout, saved: unknown): HudButtonLayout {
+    if (!this.isButtonLayout(saved)) return { ...button };
+
+    const size = this.clamp(saved.size, this.minButtonSize, this.maxButtonSize);
+    let { offsetX, offsetY } = saved;
+    if (this.viewport.width > 0 && this.viewport.height > 0) {
+      const safeArea = this.getSafeArea();
+      const anchorPoint = this.getAnchorPoint(saved.anchor);
+      const halfSize = size / 2;
+      const x = this.clamp(anchorPoint.x + offsetX, safeArea.left + halfSize, safeArea.right - halfSize);
+      const y = this.clamp(anchorPoint.y + offsetY, safeArea.top + halfSize, safeArea.bottom - halfSize);
+      offsetX = x - anchorPoint.x;
+      offsetY = y - anchorPoint.y;
+    }
+
+    return { id: button.id, anchor: saved.anchor, offsetX, offsetY, size };
+  }
+
+  /**
+   * Replace all buttons
+   */
+  private applyButtons(buttons: HudButtonLayout[]): void {
+    this.buttons.clear();
+    buttons.forEach(button => this.buttons.set(button.id, { ...button }));
+  }
+
+  /**
+   * Get the screen area inside the safe area insets
+   */
+  private getSafeArea(): { left: number; top: number; right: number; bottom: number } {
+    return {
+      left: this.insets.left,
+      top: this.insets.top,
+      right: this.viewport.width - this.insets.right,
+      bottom: this.viewport.height - this.insets.bottom
+    };
+  }
+
+  /**
+   * Get the screen position of an anchor
+   */
+  private getAnchorPoint(anchor: HudAnchor): { x: number; y: number } {
+    const safeArea = this.getSafeArea();
+    const row = ANCHOR_GRID.findIndex(anchors => anchors.includes(anchor));
+    const column = ANCHOR_GRID[row].indexOf(anchor);
+
+    return {
+      x: safeArea.left + ((safeArea.right - safeArea.left) * column) / 2,
+      y: safeArea.top + ((safeArea.bottom - safeArea.top) * row) / 2
+    };
+  }
+
+  /**
+   * Get which third of a range a value falls in
+   */
+  private getThird(value: number, start: number, end: number): number {
+    const length = end - start;
+    if (length <= 0) return 1;
+    return Math.min(2, Math.max(0, Math.floor(((value - start) / length) * 3)));
+  }
+
+  /**
+   * Clamp a value to a range
+   */
+  private clamp(value: number, min: number, max: number): number {
+    return Math.min(Math.max(value, min), Math.max(min, max));
+  }
+
+  /**
+   * Notify listener of layout changes
+   */
+  private notifyChange(): void {
+    this.changeListener?.(this.getButtons());
+  }
+}
@@ -5,8 +5,17 @@
 
 import { 
   PerformanceMetrics, 
-  GestureType 
+  GestureType,
+  GestureName,
+  Clock,
+  ClockTimer
 } from '../types/TouchTypes';
+import { systemClock } from './Clock';
+
+const MONITORING_INTERVAL = 1000;
+// Gesture rate, per second, estimated to keep the CPU busy: an active player
+// at half this rate already reaches the 5% battery impact deemed acceptable
+const MAX_GESTURE_RATE = 10;
 
 interface TimingData {
   startTime: number;
@@ -24,13 +33,18 @@ interface GestureMetrics {
 
 export class PerformanceMonitor {
   private timings: Map<string, TimingData> = new Map();
-  private gestureMetrics: Map<GestureType, GestureMetrics> = new Map();
+  private gestureMetrics: Map<GestureName, GestureMetrics> = new Map();
   private memoryUsage: number = 0;
   private batteryImpact: number = 0;
+  // Gestures recorded since battery impact was last measured
+  private recentGestureCount: number = 0;
   private isMonitoring: boolean = false;
-  private monitoringInterval: NodeJS.Timeout | null = null;
+  private monitoringTimer: ClockTimer | null = null;
+  private clock: Clock;
+  private batteryImpactListener: ((batteryImpact: number) => void) | null = null;
 
-  constructor() {
+  constructor(clock: Clock = systemClock) {
+    this.clock = clock;
     this.initializeGestureMetrics();
     this.startMonitoring();
   }
@@ -40,25 +54,45 @@ export class PerformanceMonitor {
    */
   private initializeGestureMetrics(): void {
     Object.values(GestureType).forEach(gestureType => {
-      this.gestureMetrics.set(gestureType, {
-        count: 0,
-        successCount: 0,
-        errorCount: 0,
-        averageTime: 0,
-        totalTime: 0
-      });
+      this.gestureMetrics.set(gestureType, this.createGestureMetrics());
     });
   }
 
+  /**
+   * Create empty metrics for a gesture
+   */
+  private createGestureMetrics(): GestureMetrics {
+    return {
+      count: 0,
+      successCount: 0,
+      errorCount: 0,
+      averageTime: 0,
+      totalTime: 0
+    };
+  }
+
   /**
    * Start performance monitoring
    */
   private startMonitoring(): void {
     this.isMonitoring = true;
-    this.monitoringInterval = setInterval(() => {
-      this.updateMemoryUsage();
-      this.updateBatteryImpact();
-    }, 1000); // Update every second
+    this.scheduleMonitoring();
+  }
+
+  /**
+   * Update memory usage and battery impact every second
+   */
+  private scheduleMonitoring(): void {
+    this.monitoringTimer = this.clock.setTimeout(() => {
+      try {
+        this.updateMemoryUsage();
+        this.updateBatteryImpact();
+      } finally {
+        if (this.isMonitoring) {
+          this.scheduleMonitoring();
+        }
+      }
+    }, MONITORING_INTERVAL);
   }
 
   /**
@@ -66,9 +100,9 @@ export class PerformanceMonitor {
    */
   private stopMonitoring(): void {
     this.isMonitoring = false;
-    if (this.monitoringInterval) {
-      clearInterval(this.monitoringInterval);
-      this.monitoringInterval = null;
+    if (this.monitoringTimer) {
+      this.clock.clearTimeout(this.monitoringTimer);
+      this.monitoringTimer = null;
     }
   }
 
@@ -76,7 +110,7 @@ export class PerformanceMonitor {
    * Start timing a specific operation
    */
   public startTiming(operation: string): number {
-    const startTime = performance.now();
+    const startTime = this.clock.now();
     this.timings.set(operation, { startTime });
     return startTime;
   }
@@ -85,7 +119,7 @@ export class PerformanceMonitor {
    * End timing for a specific operation
    */
   public endTiming(operation: string, startTime?: number): number {
-    const endTime = performance.now();
+    const endTime = this.clock.now();
     const timing = this.timings.get(operation);
     
     if (timing) {
@@ -105,11 +139,15 @@ export class PerformanceMonitor {
   /**
    * Record gesture recognition
    */
-  public recordGesture(gestureType: GestureType, success: boolean, recognitionTime?: number): void {
-    const metrics = this.gestureMetrics.get(gestureType);
-    if (!metrics) return;
+  public recordGesture(gestureType: GestureName, success: boolean, recognitionTime?: number): void {
+    // Custom gestures are tracked from their first recognition
+    if (!this.gestureMetrics.has(gestureType)) {
+      this.gestureMetrics.set(gestureType, this.createGestureMetrics());
+    }
+    const metrics = this.gestureMetrics.get(gestureType)!;
 
     metrics.count++;
+    this.recentGestureCount++;
     if (success) {
       metrics.successCount++;
     } else {
@@ -141,6 +179,16 @@ export class PerformanceMonitor {
     // For now, we'll estimate based on CPU usage
     const cpuUsage = this.calculateCPUUsage();
     this.batteryImpact = cpuUsage * 0.1; // Estimate battery impact
+    this.recentGestureCount = 0;
+
+    this.batteryImpactListener?.(this.batteryImpact);
+  }
+
+  /**
+   * Set the listener told the battery impact each time it is measured
+   */
+  public setBatteryImpactListener(listener: ((batteryImpact: number) => void) | null): void {
+    this.batteryImpactListener = listener;
   }
 
   /**
@@ -149,10 +197,9 @@ export class PerformanceMonitor {
   private calculateCPUUsage(): number {
     // This is a simplified calculation
     // In a real implementation, you'd use platform-specific APIs
-    const activeGestures = Array.from(this.gestureMetrics.values())
-      .reduce((sum, metrics) => sum + metrics.count, 0);
-    
-    return Math.min(activeGestures * 0.01, 1.0); // Cap at 100%
+    // Only gestures since the last measurement count, so usage falls when activity does
+    const gestureRate = (this.recentGestureCount * 1000) / MONITORING_INTERVAL;
+    return Math.min(gestureRate / MAX_GESTURE_RATE, 1.0); // Cap at 100%
   }
 
   /**
@@ -180,7 +227,7 @@ export class PerformanceMonitor {
   /**
    * Get detailed metrics for specific gesture type
    */
-  public getGestureMetrics(gestureType: GestureType): GestureMetrics | null {
+  public getGestureMetrics(gestureType: GestureName): GestureMetrics | null {
     return this.gestureMetrics.get(gestureType) || null;
   }
 
@@ -246,6 +293,7 @@ export class PerformanceMonitor {
     this.initializeGestureMetrics();
     this.memoryUsage = 0;
     this.batteryImpact = 0;
+    this.recentGestureCount = 0;
   }
 
   /**
@@ -271,7 +319,7 @@ export class PerformanceMonitor {
     if (data.gestureMetrics) {
       // Import gesture-specific metrics
       Object.entries(data.gestureMetrics).forEach(([gestureType, metrics]) => {
-        this.gestureMetrics.set(gestureType as GestureType, metrics as GestureMetrics);
+        this.gestureMetrics.set(gestureType, metrics as GestureMetrics);
       });
     }
     
@@ -288,6 +336,7 @@ export class PerformanceMonitor {
    */
   public destroy(): void {
     this.stopMonitoring();
+    this.batteryImpactListener = null;
     this.timings.clear();
     this.gestureMetrics.clear();
   }
@@ -0,0 +1,285 @@
+/**
+ * Shape Recognizer
+ * Matches drawn single-stroke paths against a template library ($1 unistroke recognizer)
+ */
+
+import { ShapeMatch, ShapePoint, ShapeTemplate } from '../types/TouchTypes';
+
+const RESAMPLE_COUNT = 64;
+const SQUARE_SIZE = 250;
+const HALF_DIAGONAL = 0.5 * Math.sqrt(2 * SQUARE_SIZE * SQUARE_SIZE);
+const ANGLE_RANGE = Math.PI / 4;
+const ANGLE_PRECISION = Math.PI / 90;
+const GOLDEN_RATIO = 0.5 * (Math.sqrt(5) - 1);
+// Strokes thinner than this ratio are lines and are scaled uniformly
+const ONE_DIMENSIONAL_RATIO = 0.3;
+
+interface NormalizedTemplate {
+  template: ShapeTemplate;
+  points: ShapePoint[];
+}
+
+export class ShapeRecognizer {
+  private templates: NormalizedTemplate[] = [];
+
+  /**
+   * Add a template; several templates may share a name to cover drawing
+   * variations. Returns false if the template has fewer than two points.
+   */
+  public addTemplate(name: string, points: ShapePoint[]): boolean {
+    if (points.length < 2) return false;
+
+    const template: ShapeTemplate = {
+      name,
+      points: points.map(point => ({ x: point.x, y: point.y }))
+    };
+    this.templates.push({ template, points: this.normalize(template.points) });
+    return true;
+  }
+
+  /**
+   * Add templates from a JSON template library, returning the names of the
+   * templates it rejected: entries that aren't a name with points, or that
+   * have fewer than two points. Entries without a name are named by index.
+   */
+  public loadTemplates(templates: ShapeTemplate[]): string[] {
+    const rejected: string[] = [];
+    templates.forEach((template, index) => {
+      if (!this.isTemplate(template) || !this.addTemplate(template.name, template.points)) {
+        const name = (template as Partial<ShapeTemplate> | null)?.name;
+        rejected.push(typeof name === 'string' ? name : `#${index}`);
+      }
+    });
+    return rejected;
+  }
+
+  /**
+   * Check if a template library entry has a name and points with coordinates
+   */
+  private isTemplate(value: unknown): value is ShapeTemplate {
+    const template = value as Partial<ShapeTemplate> | null;
+    return (
+      typeof template === 'object' &&
+      template !== null &&
+      typeof template.name === 'string' &&
+      Array.isArray(template.points) &&
+      template.points.every(point => point !== null && Number.isFinite(point.x) && Number.isFinite(point.y))
+    );
+  }
+
+  /**
+   * Remove every template with the given name
+   */
+  public removeTemplate(name: string): void {
+    this.templates = this.templates.filter(entry => entry.template.name !== name);
+  }
+
+  /**
+   * Get templates in their JSON form
+   */
+  public getTemplates(): ShapeTemplate[] {
+    return this.templates.map(entry => entry.template);
+  }
+
+  /**
+   * Check if any template is registered
+   */
+  public hasTemplates(): boolean {
+    return this.templates.length > 0;
+  }
+
+  /**
+   * Remove all templates
+   */
+  public clear(): void {
+    this.templates = [];
+  }
+
+  /**
+   * Find the best matching template; score ranges from 0 to 1
+   */
+  public recognize(points: ShapePoint[]): ShapeMatch | null {
+    if (this.templates.length === 0 || points.length < 2) return null;
+
+    const candidate = this.normalize(points);
+    let bestDistance = Infinity;
+    let bestName = this.templates[0].template.name;
+
+    for (const entry of this.templates) {
+      const distance = this.distanceAtBestAngle(candidate, entry.points);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bestName = entry.template.name;
+      }
+    }
+
+    return {
+      name: bestName,
+      score: Math.max(0, 1 - bestDistance / HALF_DIAGONAL)
+    };
+  }
+
+  /**
+   * Resample, rotate, scale and translate a path into the comparison space
+   */
+  private normalize(points: ShapePoint[]): ShapePoint[] {
+    const resampled = this.resample(points);
+    const centroid = this.centroid(resampled);
+    const indicativeAngle = Math.atan2(
+      centroid.y - resampled[0].y,
+      centroid.x - resampled[0].x
+    );
+    const rotated = this.rotateBy(resampled, -indicativeAngle);
+    const scaled = this.scaleToSquare(rotated);
+    return this.translateToOrigin(scaled);
+  }
+
+  /**
+   * Resample a path into evenly spaced points
+   */
+  private resample(points: ShapePoint[]): ShapePoint[] {
+    const interval = this.pathLength(points) / (RESAMPLE_COUNT - 1);
+    const source = points.map(point => ({ x: point.x, y: point.y }));
+
+    if (interval === 0) {
+      return new Array(RESAMPLE_COUNT).fill(source[0]);
+    }
+
+    const resampled: ShapePoint[] = [source[0]];
+
+    let accumulated = 0;
+    for (let i = 1; i < source.length; i++) {
+      const segment = this.distance(source[i - 1], source[i]);
+      if (accumulated + segment >= interval) {
+        const t = (interval - accumulated) / segment;
+        const point = {
+          x: source[i - 1].x + t * (source[i].x - source[i - 1].x),
+          y: source[i - 1].y + t * (source[i].y - source[i - 1].y)
+        };
+        resampled.push(point);
+        // The new point starts the next segment
+        source.splice(i, 0, point);
+        accumulated = 0;
+      } else {
+        accumulated += segment;
+      }
+    }
+
+    // Rounding can leave the last point out
+    while (resampled.length < RESAMPLE_COUNT) {
+      resampled.push(source[source.length - 1]);
+    }
+
+    return resampled.slice(0, RESAMPLE_COUNT);
+  }
+
+  /**
+   * Rotate points around their centroid
+   */
+  private rotateBy(points: ShapePoint[], angle: number): ShapePoint[] {
+    const centroid = this.centroid(points);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+
+    return points.map(point => ({
+      x: (point.x - centroid.x) * cos - (point.y - centroid.y) * sin + centroid.x,
+      y: (point.x - centroid.x) * sin + (point.y - centroid.y) * cos + centroid.y
+    }));
+  }
+
+  /**
+   * Scale points into the reference square
+   */
+  private scaleToSquare(points: ShapePoint[]): ShapePoint[] {
+    const xs = points.map(point => point.x);
+    const ys = points.map(point => point.y);
+    const width = Math.max(...xs) - Math.min(...xs);
+    const height = Math.max(...ys) - Math.min(...ys);
+    const longest = Math.max(width, height) || 1;
+
+    // Stretching a line to a square would only magnify its jitter
+    const isOneDimensional = Math.min(width, height) / longest < ONE_DIMENSIONAL_RATIO;
+    const scaleX = SQUARE_SIZE / (isOneDimensional ? longest : width);
+    const scaleY = SQUARE_SIZE / (isOneDimensional ? longest : height);
+
+    return points.map(point => ({ x: point.x * scaleX, y: point.y * scaleY }));
+  }
+
+  /**
+   * Move the centroid of the points to the origin
+   */
+  private translateToOrigin(points: ShapePoint[]): ShapePoint[] {
+    const centroid = this.centroid(points);
+    return points.map(point => ({ x: point.x - centroid.x, y: point.y - centroid.y }));
+  }
+
+  /**
+   * Find the smallest path distance within the rotation range (golden section search)
+   */
+  private distanceAtBestAngle(points: ShapePoint[], templatePoints: ShapePoint[]): number {
+    let fromAngle = -ANGLE_RANGE;
+    let toAngle = ANGLE_RANGE;
+    let x1 = GOLDEN_RATIO * fromAngle + (1 - GOLDEN_RATIO) * toAngle;
+    let f1 = this.pathDistance(this.rotateBy(points, x1), templatePoints);
+    let x2 = (1 - GOLDEN_RATIO) * fromAngle + GOLDEN_RATIO * toAngle;
+    let f2 = this.pathDistance(this.rotateBy(points, x2), templatePoints);
+
+    while (Math.abs(toAngle - fromAngle) > ANGLE_PRECISION) {
+      if (f1 < f2) {
+        toAngle = x2;
+        x2 = x1;
+        f2 = f1;
+        x1 = GOLDEN_RATIO * fromAngle + (1 - GOLDEN_RATIO) * toAngle;
+        f1 = this.pathDistance(this.rotateBy(points, x1), templatePoints);
+      } else {
+        fromAngle = x1;
+        x1 = x2;
+        f1 = f2;
+        x2 = (1 - GOLDEN_RATIO) * fromAngle + GOLDEN_RATIO * toAngle;
+        f2 = this.pathDistance(this.rotateBy(points, x2), templatePoints);
+      }
+    }
+
+    return Math.min(f1, f2);
+  }
+
+  /**
+   * Average distance between corresponding points of two paths
+   */
+  private pathDistance(points: ShapePoint[], otherPoints: ShapePoint[]): number {
+    const total = points.reduce(
+      (sum, point, index) => sum + this.distance(point, otherPoints[index]),
+      0
+    );
+    return total / points.length;
+  }
+
+  /**
+   * Total length of a path
+   */
+  private pathLength(points: ShapePoint[]): number {
+    let length = 0;
+    for (let i = 1; i < points.length; i++) {
+      length += this.distance(points[i - 1], points[i]);
+    }
+    return length;
+  }
+
+  /**
+   * Average position of points
+   */
+  private centroid(points: ShapePoint[]): ShapePoint {
+    const sum = points.reduce(
+      (total, point) => ({ x: total.x + point.x, y: total.y + point.y }),
+      { x: 0, y: 0 }
+    );
+    return { x: sum.x / points.length, y: sum.y / points.length };
+  }
+
+  /**
+   * Distance between two points
+   */
+  private distance(a: ShapePoint, b: ShapePoint): number {
+    return Math.sqrt(Math.pow(b.x - a.x, 2) + Math.pow(b.y - a.y, 2));
+  }
+}
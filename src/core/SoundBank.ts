@@ -0,0 +1,251 @@
+/**
+ * Sound Bank
+ * Maps sound names to audio assets and mixes their playback
+ */
+
+import { NativeAudioBackend } from './AudioBackend';
+import { AudioBackend, AudioCategory, AudioType, LoadedSound, SoundAsset } from '../types/TouchTypes';
+
+const DEFAULT_MAX_VOICES = 4;
+
+/**
+ * Feedback sounds taken from the BrowserQuest sound effects in
+ * client/audio/sounds, which also play under their own names
+ */
+export const defaultSoundBank: Record<string, SoundAsset> = {
+  [AudioType.TAP]: { file: 'npctalk', category: AudioCategory.UI, volume: 0.6 },
+  [AudioType.DOUBLE_TAP]: { file: 'npc', category: AudioCategory.UI, volume: 0.6 },
+  [AudioType.LONG_PRESS]: { file: 'chat', category: AudioCategory.UI, volume: 0.6 },
+  [AudioType.SWIPE]: { file: 'teleport', category: AudioCategory.UI, volume: 0.4 },
+  [AudioType.SUCCESS]: { file: 'achievement', category: AudioCategory.NOTIFICATION },
+  [AudioType.ERROR]: { file: 'noloot', category: AudioCategory.NOTIFICATION },
+  [AudioType.WARNING]: { file: 'hurt', category: AudioCategory.NOTIFICATION },
+  achievement: { file: 'achievement', category: AudioCategory.GAME },
+  chat: { file: 'chat', category: AudioCategory.GAME },
+  chest: { file: 'chest', category: AudioCategory.GAME },
+  death: { file: 'death', category: AudioCategory.GAME },
+  heal: { file: 'heal', category: AudioCategory.GAME },
+  hit1: { file: 'hit1', category: AudioCategory.GAME },
+  hit2: { file: 'hit2', category: AudioCategory.GAME },
+  hurt: { file: 'hurt', category: AudioCategory.GAME },
+  kill1: { file: 'kill1', category: AudioCategory.GAME },
+  kill2: { file: 'kill2', category: AudioCategory.GAME },
+  loot: { file: 'loot', category: AudioCategory.GAME },
+  noloot: { file: 'noloot', category: AudioCategory.GAME },
+  npc: { file: 'npc', category: AudioCategory.GAME },
+  npctalk: { file: 'npctalk', category: AudioCategory.GAME },
+  revive: { file: 'revive', category: AudioCategory.GAME },
+  teleport: { file: 'teleport', category: AudioCategory.GAME }
+};
+
+interface SoundBankOptions {
+  backend?: AudioBackend;
+  // Sounds that may play at once; starting another stops the oldest
+  maxVoices?: number;
+}
+
+interface Voice {
+  name: string;
+  category: AudioCategory;
+  sound: LoadedSound;
+}
+
+export class SoundBank {
+  private assets: Map<string, SoundAsset> = new Map();
+  private backend: AudioBackend;
+  private maxVoices: number;
+  private loadedSounds: Map<string, Promise<LoadedSound>> = new Map();
+  private voices: Voice[] = [];
+  private categoryVolumes: Map<AudioCategory, number> = new Map();
+  private mutedCategories: Set<AudioCategory> = new Set();
+
+  constructor(sounds: Record<string, SoundAsset> = defaultSoundBank, options: SoundBankOptions = {}) {
+    this.backend = options.backend || new NativeAudioBackend();
+    this.maxVoices = Math.max(1, options.maxVoices ?? DEFAULT_MAX_VOICES);
+    Object.entries(sounds).forEach(([name, asset]) => this.register(name, asset));
+  }
+
+  /**
+   * Map a sound name to an asset, replacing any previous asset
+   */
+  public register(name: string, asset: SoundAsset): void {
+    this.unregister(name);
+    this.assets.set(name, asset);
+  }
+
+  /**
+   * Remove a sound, stopping and releasing it
+   */
+  public unregister(name: string): void {
+    this.stopVoices(voice => voice.name === name);
+    this.releaseSound(name);
+    this.assets.delete(name);
+  }
+
+  /**
+   * Check if a sound name is mapped to an asset
+   */
+  public has(name: string): boolean {
+    return this.assets.has(name);
+  }
+
+  /**
+   * Load sounds ahead of playback, all by default. Resolves whether every sound loaded.
+   */
+  public async preload(names: string[] = Array.from(this.assets.keys())): Promise<boolean> {
+    const loaded = await Promise.all(names.map(name => this.load(name).then(() => true, () => false)));
+    return loaded.every(isLoaded => isLoaded);
+  }
+
+  /**
+   * Play a sound, loading it first if needed. Returns false if the sound is
+   * unknown or its category is silent. Errors loading or playing the sound go
+   * to `onError`.
+   */
+  public play(name: string, onError?: (error: unknown) => void): boolean {
+    const asset = this.assets.get(name);
+    if (!asset || this.getVolume(asset) <= 0) return false;
+
+    this.load(name).then(
+      sound => {
+        // The sound may have been replaced or silenced while it loaded
+        if (this.assets.get(name) === asset && this.getVolume(asset) > 0) {
+          this.startVoice(name, asset, sound, onError);
+        }
+      },
+      error => onError?.(error)
+    );
+    return true;
+  }
+
+  /**
+   * Stop every playing sound
+   */
+  public stopAll(): void {
+    this.stopVoices(() => true);
+  }
+
+  /**
+   * Get the number of sounds playing
+   */
+  public getActiveVoiceCount(): number {
+    return this.voices.length;
+  }
+
+  /**
+   * Set the volume of a category (0.0 to 1.0)
+   */
+  public setCategoryVolume(category: AudioCategory, volume: number): void {
+    this.categoryVolumes.set(category, Math.max(0, Math.min(1, volume)));
+  }
+
+  /**
+   * Get the volume of a category
+   */
+  public getCategoryVolume(category: AudioCategory): number {
+    return this.categoryVolumes.get(category) ?? 1;
+  }
+
+  /**
+   * Mute or unmute a category, stopping its playing sounds when muted
+   */
+  public setCategoryMuted(category: AudioCategory, muted: boolean): void {
+    if (muted) {
+      this.mutedCategories.add(category);
+      this.stopVoices(voice => voice.category === category);
+    } else {
+      this.mutedCategories.delete(category);
+    }
+  }
+
+  /**
+   * Check if a category is muted
+   */
+  public isCategoryMuted(category: AudioCategory): boolean {
+    return this.mutedCategories.has(category);
+  }
+
+  /**
+   * Get the playback volume of an asset in its category
+   */
+  private getVolume(asset: SoundAsset): number {
+    if (this.mutedCategories.has(asset.category)) return 0;
+    return (asset.volume ?? 1) * this.getCategoryVolume(asset.category);
+  }
+
+  /**
+   * Load a sound once, rejecting if it is unknown or can't be loaded
+   */
+  private load(name: string): Promise<LoadedSound> {
+    const asset = this.assets.get(name);
+    if (!asset) return Promise.reject(new Error(`Unknown sound ${name}`));
+
+    let sound = this.loadedSounds.get(name);
+    if (!sound) {
+      sound = this.backend.load(asset.file);
+      // Allow a later play or preload to retry
+      sound.catch(() => {
+        if (this.loadedSounds.get(name) === sound) {
+          this.loadedSounds.delete(name);
+        }
+      });
+      this.loadedSounds.set(name, sound);
+    }
+
+    return sound;
+  }
+
+  /**
+   * Start a voice, restarting the sound if it is playing and stopping the
+   * oldest voice when all voices are in use
+   */
+  private startVoice(
+    name: string,
+    asset: SoundAsset,
+    sound: LoadedSound,
+    onError?: (error: unknown) => void
+  ): void {
+    this.stopVoices(voice => voice.sound === sound);
+    while (this.voices.length >= this.maxVoices) {
+      const oldest = this.voices.shift()!;
+      oldest.sound.stop();
+    }
+
+    const voice: Voice = { name, category: asset.category, sound };
+    this.voices.push(voice);
+    try {
+      sound.play(this.getVolume(asset), () => {
+        this.voices = this.voices.filter(candidate => candidate !== voice);
+      });
+    } catch (error) {
+      this.voices = this.voices.filter(candidate => candidate !== voice);
+      onError?.(error);
+    }
+  }
+
+  /**
+   * Stop the voices that match a predicate
+   */
+  private stopVoices(predicate: (voice: Voice) => boolean): void {
+    const stopped = this.voices.filter(predicate);
+    this.voices = this.voices.filter(voice => !stopped.includes(voice));
+    stopped.forEach(voice => voice.sound.stop());
+  }
+
+  /**
+   * Release a loaded sound
+   */
+  private releaseSound(name: string): void {
+    const sound = this.loadedSounds.get(name);
+    this.loadedSounds.delete(name);
+    sound?.then(loadedSound => loadedSound.release(), () => undefined);
+  }
+
+  /**
+   * Stop and release every sound
+   */
+  public destroy(): void {
+    this.stopAll();
+    Array.from(this.loadedSounds.keys()).forEach(name => this.releaseSound(name));
+  }
+}
@@ -8,35 +8,85 @@ import {
   GestureState, 
   GestureEvent, 
   GestureType, 
+  GestureName,
   TouchTarget,
+  TargetGestureEvent,
   TouchControlConfig,
   PerformanceMetrics,
-  TouchFeedbackType
+  TouchFeedbackType,
+  GesturePhase,
+  ShapePoint,
+  ShapeTemplate,
+  StorageAdapter,
+  Clock,
+  TouchEventType,
+  HapticBackend
 } from '../types/TouchTypes';
-import { GestureRecognizer } from './GestureRecognizer';
+import { GestureRecognizer, DEFAULT_LONG_PRESS_DURATION } from './GestureRecognizer';
 import { AccessibilityManager } from './AccessibilityManager';
 import { PerformanceMonitor } from './PerformanceMonitor';
 import { FeedbackManager } from './FeedbackManager';
+import { CustomGestureRecognizer } from './CustomGestureRecognizer';
+import { GestureArbiter } from './GestureArbiter';
+import { GestureBindingStore, defaultGestureBindings } from './GestureBindingStore';
+import { supportsForceTouch, findTargetAtPoint } from '../utils/TouchUtils';
+
+interface TouchControlManagerOptions {
+  bindingStorage?: StorageAdapter;
+  clock?: Clock;
+  hapticBackend?: HapticBackend;
+}
 
 export class TouchControlManager {
   private gestureRecognizer: GestureRecognizer;
   private accessibilityManager: AccessibilityManager;
   private performanceMonitor: PerformanceMonitor;
   private feedbackManager: FeedbackManager;
+  private gestureArbiter: GestureArbiter;
+  private bindingStore: GestureBindingStore;
   private config: TouchControlConfig;
   private activeTouches: Map<number, TouchPoint> = new Map();
   private touchTargets: Map<string, TouchTarget> = new Map();
-  private gestureCallbacks: Map<GestureType, Function[]> = new Map();
+  private gestureCallbacks: Map<GestureName, Function[]> = new Map();
+  private targetGestureCallbacks: Map<string, Map<GestureName, Function[]>> = new Map();
+  private customRecognizers: Map<string, CustomGestureRecognizer> = new Map();
   private isEnabled: boolean = true;
+  private deferredGestureEvents: GestureEvent[] | null = null;
+  private viewportSize: { width: number; height: number } | null = null;
+  private touchListener: ((type: TouchEventType, touch: TouchPoint) => void) | null = null;
+  // Force touch is detected from the first touch that reports pressure, unless overridden
+  private pressureSupported: boolean | null = null;
 
-  constructor(config: TouchControlConfig) {
+  constructor(config: TouchControlConfig, options: TouchControlManagerOptions = {}) {
     this.config = config;
-    this.gestureRecognizer = new GestureRecognizer(config.gestureConfig);
-    this.accessibilityManager = new AccessibilityManager(config.accessibility);
-    this.performanceMonitor = new PerformanceMonitor();
-    this.feedbackManager = new FeedbackManager();
+    this.bindingStore = new GestureBindingStore(config.gestureBindings || defaultGestureBindings, {
+      storage: options.bindingStorage
+    });
+    this.gestureRecognizer = new GestureRecognizer(config.gestureConfig, options.clock);
+    this.accessibilityManager = new AccessibilityManager(config.accessibility, this.bindingStore);
+    this.performanceMonitor = new PerformanceMonitor(options.clock);
+    this.feedbackManager = new FeedbackManager({
+      hapticBackend: options.hapticBackend,
+      clock: options.clock,
+      platform: config.platform
+    });
+    this.gestureArbiter = new GestureArbiter(config.exclusiveGestures);
+
+    // Deliver less feedback as its battery cost rises
+    const feedbackScheduler = this.feedbackManager.getScheduler();
+    this.performanceMonitor.setBatteryImpactListener(batteryImpact => feedbackScheduler.setBatteryImpact(batteryImpact));
     
     this.initializeGestureCallbacks();
+    this.gestureRecognizer.setPressureSupported(false);
+    this.gestureRecognizer.setGestureListener(gestureEvent => {
+      if (!this.isEnabled) return;
+
+      if (this.deferredGestureEvents) {
+        this.deferredGestureEvents.push(gestureEvent);
+      } else {
+        this.processGestureEvent(gestureEvent);
+      }
+    });
   }
 
   /**
@@ -97,12 +147,35 @@ export class TouchControlManager {
    */
   public handleTouchStart(touch: TouchPoint): void {
     if (!this.isEnabled) return;
+    this.touchListener?.('start', touch);
 
     const startTime = this.performanceMonitor.startTiming('touch_start');
+    const isNewGesture = this.activeTouches.size === 0;
     this.activeTouches.set(touch.identifier, touch);
+    this.detectPressureSupport(touch);
+
+    // A second finger means the hold can no longer become a long press
+    this.feedbackManager.providePressFeedback(
+      isNewGesture ? GesturePhase.BEGAN : GesturePhase.CANCELLED,
+      touch,
+      this.config.gestureConfig.longPressDuration ?? DEFAULT_LONG_PRESS_DURATION
+    );
     
+    // The recognizer releases a held tap the touch can't complete a double tap
+    // with, which belongs to the previous sequence
     this.gestureRecognizer.onTouchStart(touch);
+    if (isNewGesture) {
+      this.gestureArbiter.beginSequence(touch.timestamp);
+    }
     this.accessibilityManager.onTouchStart(touch);
+
+    const gestureState = this.gestureRecognizer.getCurrentState();
+    this.customRecognizers.forEach(recognizer => {
+      if (isNewGesture) {
+        recognizer.reset();
+      }
+      recognizer.handleTouchStart(touch, gestureState);
+    });
     
     this.performanceMonitor.endTiming('touch_start', startTime);
   }
@@ -112,14 +185,20 @@ export class TouchControlManager {
    */
   public handleTouchMove(touch: TouchPoint): void {
     if (!this.isEnabled) return;
+    this.touchListener?.('move', touch);
 
     const startTime = this.performanceMonitor.startTiming('touch_move');
     this.activeTouches.set(touch.identifier, touch);
+    this.detectPressureSupport(touch);
     
     const gestureState = this.gestureRecognizer.onTouchMove(touch);
     if (gestureState) {
       this.processGestureState(gestureState);
     }
+
+    this.customRecognizers.forEach(recognizer => {
+      recognizer.handleTouchMove(touch, this.gestureRecognizer.getCurrentState());
+    });
     
     this.performanceMonitor.endTiming('touch_move', startTime);
   }
@@ -129,23 +208,70 @@ export class TouchControlManager {
    */
   public handleTouchEnd(touch: TouchPoint): void {
     if (!this.isEnabled) return;
+    this.touchListener?.('end', touch);
 
     const startTime = this.performanceMonitor.startTiming('touch_end');
     this.activeTouches.delete(touch.identifier);
     
+    // Dispatch the final gesture before the continuous gesture it replaces
+    // ends, so that arbitration can still cancel the continuous gesture
+    this.deferredGestureEvents = [];
     const gestureEvent = this.gestureRecognizer.onTouchEnd(touch);
+    const deferredGestureEvents = this.deferredGestureEvents;
+    this.deferredGestureEvents = null;
+
     if (gestureEvent) {
       this.processGestureEvent(gestureEvent);
     }
+    deferredGestureEvents.forEach(deferredEvent => this.processGestureEvent(deferredEvent));
+
+    const gestureState = this.gestureRecognizer.getCurrentState();
+    this.customRecognizers.forEach(recognizer => {
+      recognizer.handleTouchEnd(touch, gestureState);
+      if (this.activeTouches.size === 0) {
+        recognizer.finishGesture();
+      }
+    });
+
+    if (this.activeTouches.size === 0) {
+      this.gestureArbiter.endSequence().forEach(releasedEvent => this.dispatchGestureEvent(releasedEvent));
+      this.feedbackManager.providePressFeedback(GesturePhase.CANCELLED, touch);
+    }
     
     this.accessibilityManager.onTouchEnd(touch);
     this.performanceMonitor.endTiming('touch_end', startTime);
   }
 
+  /**
+   * Handle touch cancel event
+   */
+  public handleTouchCancel(touch: TouchPoint): void {
+    if (!this.isEnabled) return;
+    this.touchListener?.('cancel', touch);
+
+    const startTime = this.performanceMonitor.startTiming('touch_cancel');
+    this.activeTouches.delete(touch.identifier);
+
+    const gestureEvent = this.gestureRecognizer.onTouchCancel(touch);
+    if (gestureEvent) {
+      this.processGestureEvent(gestureEvent);
+    }
+
+    this.customRecognizers.forEach(recognizer => recognizer.handleTouchCancel(touch));
+
+    if (this.activeTouches.size === 0) {
+      this.gestureArbiter.cancelSequence();
+      this.feedbackManager.providePressFeedback(GesturePhase.CANCELLED, touch);
+    }
+
+    this.accessibilityManager.onTouchEnd(touch);
+    this.performanceMonitor.endTiming('touch_cancel', startTime);
+  }
+
   /**
    * Process gesture state during movement
    */
-  private processGestureState(gestureState: any): void {
+  private processGestureState(gestureState: GestureState): void {
     // Provide real-time feedback during gesture
     if (gestureState.isActive) {
       this.feedbackManager.provideFeedback(TouchFeedbackType.VISUAL, gestureState);
@@ -153,31 +279,110 @@ export class TouchControlManager {
   }
 
   /**
-   * Process completed gesture event
+   * Process recognized gesture event, resolving conflicts with other gestures
    */
   private processGestureEvent(gestureEvent: GestureEvent): void {
-    const callbacks = this.gestureCallbacks.get(gestureEvent.type) || [];
+    const targetedEvent = this.attachTarget(gestureEvent);
+    this.gestureArbiter.arbitrate(targetedEvent).forEach(event => this.dispatchGestureEvent(event));
+  }
+
+  /**
+   * Hit-test the gesture's start point against registered touch targets
+   */
+  private attachTarget(gestureEvent: GestureEvent): GestureEvent {
+    const startTouch = gestureEvent.state?.startTouches?.[0];
+    if (gestureEvent.target || !startTouch) return gestureEvent;
+
+    const target = findTargetAtPoint(
+      startTouch,
+      Array.from(this.touchTargets.values()),
+      this.config.minTouchTargetSize
+    );
+    return target ? { ...gestureEvent, target } : gestureEvent;
+  }
+
+  /**
+   * Dispatch gesture event to callbacks, feedback and metrics
+   */
+  private dispatchGestureEvent(gestureEvent: GestureEvent): void {
+    const { propagationStopped, failed: targetCallbackFailed } = this.dispatchToTargets(gestureEvent);
+    const callbacks = propagationStopped ? [] : this.gestureCallbacks.get(gestureEvent.type) || [];
+    let callbackFailed = targetCallbackFailed;
     
     // Execute all registered callbacks
     callbacks.forEach(callback => {
-      try {
-        callback(gestureEvent);
-      } catch (error) {
-        console.error(`Error in gesture callback for ${gestureEvent.type}:`, error);
+      if (!this.runGestureCallback(callback, gestureEvent)) {
+        callbackFailed = true;
       }
     });
 
+    // Continuous gestures give feedback when they begin and count once when they finish
+    const phase = gestureEvent.phase;
+
     // Provide feedback
-    this.feedbackManager.provideFeedback(TouchFeedbackType.HAPTIC, gestureEvent);
+    if (!phase || phase === GesturePhase.BEGAN) {
+      this.feedbackManager.provideFeedback(TouchFeedbackType.HAPTIC, gestureEvent);
+    }
+    this.feedbackManager.provideFeedback(TouchFeedbackType.VISUAL, gestureEvent);
     
-    // Update performance metrics
-    this.performanceMonitor.recordGesture(gestureEvent.type, true);
+    // Update performance metrics: a gesture fails when it is cancelled or a callback throws
+    if (!phase || phase === GesturePhase.ENDED) {
+      this.performanceMonitor.recordGesture(gestureEvent.type, !callbackFailed);
+    } else if (phase === GesturePhase.CANCELLED) {
+      this.performanceMonitor.recordGesture(gestureEvent.type, false);
+    }
+  }
+
+  /**
+   * Bubble gesture event from its target up through the target's parents,
+   * returning whether a callback stopped propagation and whether one threw
+   */
+  private dispatchToTargets(gestureEvent: GestureEvent): { propagationStopped: boolean; failed: boolean } {
+    let propagationStopped = false;
+    let failed = false;
+    const visitedTargetIds = new Set<string>();
+    let currentTarget = gestureEvent.target;
+
+    while (currentTarget && !propagationStopped && !visitedTargetIds.has(currentTarget.id)) {
+      visitedTargetIds.add(currentTarget.id);
+
+      const targetEvent: TargetGestureEvent = {
+        ...gestureEvent,
+        currentTarget,
+        stopPropagation: () => {
+          propagationStopped = true;
+        }
+      };
+      const callbacks = this.targetGestureCallbacks.get(currentTarget.id)?.get(gestureEvent.type) || [];
+      callbacks.forEach(callback => {
+        if (!this.runGestureCallback(callback, targetEvent)) {
+          failed = true;
+        }
+      });
+
+      currentTarget = currentTarget.parentId ? this.touchTargets.get(currentTarget.parentId) : undefined;
+    }
+
+    return { propagationStopped, failed };
+  }
+
+  /**
+   * Run a gesture or target gesture callback, returning false if it threw
+   */
+  private runGestureCallback(callback: Function, gestureEvent: GestureEvent): boolean {
+    try {
+      callback(gestureEvent);
+      return true;
+    } catch (error) {
+      console.error(`Error in gesture callback for ${gestureEvent.type}:`, error);
+      return false;
+    }
   }
 
   /**
    * Register callback for specific gesture type
    */
-  public onGesture(gestureType: GestureType, callback: (event: GestureEvent) => void): void {
+  public onGesture(gestureType: GestureName, callback: (event: GestureEvent) => void): void {
     const callbacks = this.gestureCallbacks.get(gestureType) || [];
     callbacks.push(callback);
     this.gestureCallbacks.set(gestureType, callbacks);
@@ -186,7 +391,7 @@ export class TouchControlManager {
   /**
    * Remove callback for specific gesture type
    */
-  public offGesture(gestureType: GestureType, callback: (event: GestureEvent) => void): void {
+  public offGesture(gestureType: GestureName, callback: (event: GestureEvent) => void): void {
     const callbacks = this.gestureCallbacks.get(gestureType) || [];
     const index = callbacks.indexOf(callback);
     if (index > -1) {
@@ -195,6 +400,132 @@ export class TouchControlManager {
     }
   }
 
+  /**
+   * Register callback for a gesture on one or more touch targets. The callback
+   * also runs for gestures on nested targets unless they stop propagation.
+   */
+  public onTargetGesture(
+    targetIds: string | string[],
+    gestureType: GestureName,
+    callback: (event: TargetGestureEvent) => void
+  ): void {
+    (Array.isArray(targetIds) ? targetIds : [targetIds]).forEach(targetId => {
+      const targetCallbacks = this.targetGestureCallbacks.get(targetId) || new Map();
+      const callbacks = targetCallbacks.get(gestureType) || [];
+      callbacks.push(callback);
+      targetCallbacks.set(gestureType, callbacks);
+      this.targetGestureCallbacks.set(targetId, targetCallbacks);
+    });
+  }
+
+  /**
+   * Remove callback for a gesture on one or more touch targets
+   */
+  public offTargetGesture(
+    targetIds: string | string[],
+    gestureType: GestureName,
+    callback: (event: TargetGestureEvent) => void
+  ): void {
+    (Array.isArray(targetIds) ? targetIds : [targetIds]).forEach(targetId => {
+      const callbacks = this.targetGestureCallbacks.get(targetId)?.get(gestureType) || [];
+      const index = callbacks.indexOf(callback);
+      if (index > -1) {
+        callbacks.splice(index, 1);
+      }
+    });
+  }
+
+  /**
+   * Add a shape template recognized as a SHAPE gesture when drawn. Returns
+   * false if the template has fewer than two points.
+   */
+  public addShapeTemplate(name: string, points: ShapePoint[]): boolean {
+    return this.gestureRecognizer.getShapeRecognizer().addTemplate(name, points);
+  }
+
+  /**
+   * Add shape templates from a JSON template library, returning the names of
+   * the templates it rejected
+   */
+  public loadShapeTemplates(templates: ShapeTemplate[]): string[] {
+    return this.gestureRecognizer.getShapeRecognizer().loadTemplates(templates);
+  }
+
+  /**
+   * Remove every shape template with the given name
+   */
+  public removeShapeTemplate(name: string): void {
+    this.gestureRecognizer.getShapeRecognizer().removeTemplate(name);
+  }
+
+  /**
+   * Get shape templates in their JSON form
+   */
+  public getShapeTemplates(): ShapeTemplate[] {
+    return this.gestureRecognizer.getShapeRecognizer().getTemplates();
+  }
+
+  /**
+   * Register a custom gesture recognizer, whose gestures are delivered to
+   * onGesture callbacks under the recognizer's name, replacing any recognizer
+   * of the same name. Returns false if the name is a built-in gesture.
+   */
+  public registerRecognizer(recognizer: CustomGestureRecognizer): boolean {
+    if ((Object.values(GestureType) as string[]).includes(recognizer.name)) {
+      return false;
+    }
+
+    if (this.customRecognizers.has(recognizer.name)) {
+      this.unregisterRecognizer(recognizer.name);
+    }
+
+    recognizer.reset();
+    recognizer.setGestureListener(gestureEvent => {
+      if (this.isEnabled) {
+        this.processGestureEvent(gestureEvent);
+      }
+    });
+    this.customRecognizers.set(recognizer.name, recognizer);
+    return true;
+  }
+
+  /**
+   * Unregister a custom gesture recognizer
+   */
+  public unregisterRecognizer(name: string): void {
+    const recognizer = this.customRecognizers.get(name);
+    if (recognizer) {
+      recognizer.setGestureListener(null);
+      recognizer.reset();
+      this.customRecognizers.delete(name);
+    }
+  }
+
+  /**
+   * Hold a gesture back until the other gesture fails to be recognized
+   */
+  public requireFailureOf(gesture: GestureName, otherGesture: GestureName): void {
+    this.gestureArbiter.requireFailureOf(gesture, otherGesture);
+  }
+
+  /**
+   * Declare whether two gestures may both be recognized in the same touch sequence
+   */
+  public recognizeSimultaneously(
+    gesture: GestureName,
+    otherGesture: GestureName,
+    simultaneous: boolean = true
+  ): void {
+    this.gestureArbiter.recognizeSimultaneously(gesture, otherGesture, simultaneous);
+  }
+
+  /**
+   * Set gesture priority used to pick a winner between conflicting gestures
+   */
+  public setGesturePriority(gesture: GestureName, priority: number): void {
+    this.gestureArbiter.setPriority(gesture, priority);
+  }
+
   /**
    * Enable/disable touch controls
    */
@@ -203,9 +534,51 @@ export class TouchControlManager {
     if (!enabled) {
       this.activeTouches.clear();
       this.gestureRecognizer.reset();
+      this.customRecognizers.forEach(recognizer => recognizer.reset());
+      this.gestureArbiter.reset();
     }
   }
 
+  /**
+   * Update viewport size used for edge-aware gestures
+   */
+  public setViewportSize(width: number, height: number): void {
+    this.viewportSize = { width, height };
+    this.gestureRecognizer.setViewportSize(width, height);
+  }
+
+  /**
+   * Get the viewport size, if one was set
+   */
+  public getViewportSize(): { width: number; height: number } | null {
+    return this.viewportSize ? { ...this.viewportSize } : null;
+  }
+
+  /**
+   * Set listener called with every touch the manager handles, such as a recorder
+   */
+  public setTouchListener(listener: ((type: TouchEventType, touch: TouchPoint) => void) | null): void {
+    this.touchListener = listener;
+  }
+
+  /**
+   * Override whether the device reports touch pressure
+   */
+  public setPressureSupported(supported: boolean): void {
+    this.pressureSupported = supported;
+    this.gestureRecognizer.setPressureSupported(supported);
+  }
+
+  /**
+   * Turn on force touch once a touch reports pressure on a device that supports it
+   */
+  private detectPressureSupport(touch: TouchPoint): void {
+    if (this.pressureSupported !== null || !supportsForceTouch(this.config.platform, 0, touch.pressure)) return;
+
+    this.pressureSupported = true;
+    this.gestureRecognizer.setPressureSupported(true);
+  }
+
   /**
    * Get current performance metrics
    */
@@ -213,15 +586,37 @@ export class TouchControlManager {
     return this.performanceMonitor.getMetrics();
   }
 
+  /**
+   * Get current configuration
+   */
+  public getConfig(): TouchControlConfig {
+    return this.config;
+  }
+
   /**
    * Update configuration
    */
   public updateConfig(newConfig: Partial<TouchControlConfig>): void {
     this.config = { ...this.config, ...newConfig };
     this.gestureRecognizer.updateConfig(this.config.gestureConfig);
+    this.gestureArbiter.setExclusiveByDefault(this.config.exclusiveGestures === true);
     this.accessibilityManager.updateConfig(this.config.accessibility);
   }
 
+  /**
+   * Get the store of gesture-to-action bindings
+   */
+  public getBindingStore(): GestureBindingStore {
+    return this.bindingStore;
+  }
+
+  /**
+   * Get the feedback manager, to adjust feedback settings and backends
+   */
+  public getFeedbackManager(): FeedbackManager {
+    return this.feedbackManager;
+  }
+
   /**
    * Get accessibility status
    */
@@ -236,7 +631,13 @@ export class TouchControlManager {
     this.activeTouches.clear();
     this.touchTargets.clear();
     this.gestureCallbacks.clear();
+    this.targetGestureCallbacks.clear();
+    this.touchListener = null;
+    this.customRecognizers.forEach(recognizer => recognizer.setGestureListener(null));
+    this.customRecognizers.clear();
     this.gestureRecognizer.destroy();
+    this.gestureArbiter.reset();
+    this.bindingStore.setChangeListener(null);
     this.accessibilityManager.destroy();
     this.performanceMonitor.destroy();
     this.feedbackManager.destroy();
@@ -0,0 +1,118 @@
+/**
+ * Touch Recorder
+ * Captures the raw touches a manager handles, to reproduce gestures later
+ */
+
+import { TouchControlManager } from './TouchControlManager';
+import { systemClock } from './Clock';
+import {
+  Clock,
+  RecordedTouchEvent,
+  TouchControlConfig,
+  TouchEventType,
+  TouchPoint,
+  TouchRecording
+} from '../types/TouchTypes';
+
+export const TOUCH_RECORDING_VERSION = 1;
+
+interface TouchRecorderOptions {
+  clock?: Clock;
+}
+
+export class TouchRecorder {
+  private clock: Clock;
+  private manager: TouchControlManager | null = null;
+  private config: TouchControlConfig | null = null;
+  private viewport: { width: number; height: number } | null = null;
+  private startTime: number = 0;
+  private endTime: number = 0;
+  private events: RecordedTouchEvent[] = [];
+
+  constructor(options: TouchRecorderOptions = {}) {
+    this.clock = options.clock || systemClock;
+  }
+
+  /**
+   * Start recording the touches a manager handles, discarding any previous recording
+   */
+  public start(manager: TouchControlManager): void {
+    this.stop();
+
+    this.manager = manager;
+    // Snapshot the config so later changes don't alter the recording
+    this.config = JSON.parse(JSON.stringify(manager.getConfig()));
+    this.viewport = manager.getViewportSize();
+    this.startTime = this.clock.now();
+    this.endTime = this.startTime;
+    this.events = [];
+
+    manager.setTouchListener(this.handleTouch);
+  }
+
+  /**
+   * Stop recording and return the recording
+   */
+  public stop(): TouchRecording | null {
+    if (this.manager) {
+      this.manager.setTouchListener(null);
+      this.manager = null;
+      this.endTime = this.clock.now();
+    }
+
+    return this.getRecording();
+  }
+
+  /**
+   * Check if touches are being recorded
+   */
+  public isRecording(): boolean {
+    return this.manager !== null;
+  }
+
+  /**
+   * Get the recording so far
+   */
+  public getRecording(): TouchRecording | null {
+    if (!this.config) return null;
+
+    const recording: TouchRecording = {
+      version: TOUCH_RECORDING_VERSION,
+      config: this.config,
+      startTime: this.startTime,
+      endTime: this.isRecording() ? this.clock.now() : this.endTime,
+      events: this.events.map(event => ({ ...event, touch: { ...event.touch } }))
+    };
+
+    if (this.viewport) {
+      recording.viewport = { ...this.viewport };
+    }
+
+    return recording;
+  }
+
+  /**
+   * Serialize the recording so far to JSON
+   */
+  public toJSON(): string | null {
+    const recording = this.getRecording();
+    return recording ? JSON.stringify(recording) : null;
+  }
+
+  /**
+   * Record a touch handled by the manager
+   */
+  private handleTouch = (type: TouchEventType, touch: TouchPoint): void => {
+    const recordedTouch: TouchPoint = {
+      x: touch.x,
+      y: touch.y,
+      timestamp: touch.timestamp,
+      identifier: touch.identifier
+    };
+    if (touch.pressure !== undefined) {
+      recordedTouch.pressure = touch.pressure;
+    }
+
+    this.events.push({ type, time: this.clock.now(), touch: recordedTouch });
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * Touch Replayer
+ * Feeds a touch recording through a fresh manager on a virtual clock
+ */
+
+import { TouchControlManager } from './TouchControlManager';
+import { VirtualClock } from './Clock';
+import { TOUCH_RECORDING_VERSION } from './TouchRecorder';
+import { RecordingHapticBackend } from './HapticBackend';
+import { DEFAULT_LONG_PRESS_DURATION } from './GestureRecognizer';
+import { GestureConfig, GestureEvent, GestureName, GestureType, TouchRecording } from '../types/TouchTypes';
+
+interface TouchReplayOptions {
+  // Register targets, templates or recognizers before the touches are replayed
+  setup?: (manager: TouchControlManager) => void;
+  // Custom gesture names to report alongside the built-in gestures
+  gestures?: GestureName[];
+  clock?: VirtualClock;
+}
+
+/**
+ * Get the time by which the gestures of a recording have resolved: its end,
+ * or later if a gesture held back after the last touch, such as a single tap
+ * waiting out the double tap interval, is still due
+ */
+export function getSettledTime(
+  recording: TouchRecording,
+  gestureConfig: GestureConfig = recording.config.gestureConfig
+): number {
+  const settleTime = Math.max(
+    gestureConfig.doubleTapInterval || 0,
+    gestureConfig.longPressDuration ?? DEFAULT_LONG_PRESS_DURATION
+  );
+  const lastTouch = recording.events[recording.events.length - 1];
+  return Math.max(recording.endTime, (lastTouch ? lastTouch.time : recording.startTime) + settleTime);
+}
+
+export class TouchReplayer {
+  private recording: TouchRecording;
+
+  constructor(recording: TouchRecording) {
+    this.recording = recording;
+  }
+
+  /**
+   * Create a replayer from a JSON recording, or null if it can't be replayed
+   */
+  public static fromJSON(json: string): TouchReplayer | null {
+    try {
+      const recording: TouchRecording = JSON.parse(json);
+      if (recording.version !== TOUCH_RECORDING_VERSION || !Array.isArray(recording.events)) {
+        return null;
+      }
+      return new TouchReplayer(recording);
+    } catch (error) {
+      // Not JSON
+      return null;
+    }
+  }
+
+  /**
+   * Get the recording being replayed
+   */
+  public getRecording(): TouchRecording {
+    return this.recording;
+  }
+
+  /**
+   * Replay every touch at its recorded time through a fresh manager and
+   * return the gesture events in the order the manager emitted them. The
+   * manager's haptics are recorded and its sounds muted rather than played.
+   */
+  public replay(options: TouchReplayOptions = {}): GestureEvent[] {
+    const recording = this.recording;
+    const clock = options.clock || new VirtualClock(recording.startTime);
+    const manager = new TouchControlManager(recording.config, {
+      clock,
+      hapticBackend: new RecordingHapticBackend()
+    });
+    manager.getFeedbackManager().setAudioEnabled(false);
+
+    if (recording.viewport) {
+      manager.setViewportSize(recording.viewport.width, recording.viewport.height);
+    }
+    options.setup?.(manager);
+
+    const gestureEvents = this.feed(manager, clock, options.gestures);
+    manager.destroy();
+
+    return gestureEvents;
+  }
+
+  /**
+   * Feed the touches into an existing manager driven by `clock` and return the
+   * gesture events it emitted meanwhile
+   */
+  public feed(manager: TouchControlManager, clock: VirtualClock, customGestures: GestureName[] = []): GestureEvent[] {
+    const gestureEvents: GestureEvent[] = [];
+    const recordEvent = (gestureEvent: GestureEvent) => gestureEvents.push(gestureEvent);
+    const gestures = new Set<GestureName>([...Object.values(GestureType), ...customGestures]);
+    gestures.forEach(gesture => manager.onGesture(gesture, recordEvent));
+
+    this.recording.events.forEach(event => {
+      // Timers due before the touch, such as a long press, fire first
+      clock.advanceTo(event.time);
+
+      switch (event.type) {
+        case 'start':
+          manager.handleTouchStart(event.touch);
+          break;
+        case 'move':
+          manager.handleTouchMove(event.touch);
+          break;
+        case 'end':
+          manager.handleTouchEnd(event.touch);
+          break;
+        case 'cancel':
+          manager.handleTouchCancel(event.touch);
+          break;
+      }
+    });
+
+    // Let gestures held back after the last touch, such as a single tap, resolve
+    clock.advanceTo(getSettledTime(this.recording, manager.getConfig().gestureConfig));
+    gestures.forEach(gesture => manager.offGesture(gesture, recordEvent));
+
+    return gestureEvents;
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Velocity Tracker
+ * Estimates gesture velocity from the most recent movement samples
+ */
+
+import { VelocityEstimation } from '../types/TouchTypes';
+
+const MAX_SAMPLES = 20;
+
+interface VelocitySample {
+  x: number;
+  y: number;
+  timestamp: number;
+}
+
+export class VelocityTracker {
+  private samples: VelocitySample[] = [];
+  private nextIndex: number = 0;
+
+  /**
+   * Add a position sample, overwriting the oldest one once the buffer is full
+   */
+  public addSample(x: number, y: number, timestamp: number): void {
+    const sample = { x, y, timestamp };
+
+    if (this.samples.length < MAX_SAMPLES) {
+      this.samples.push(sample);
+    } else {
+      this.samples[this.nextIndex] = sample;
+    }
+    this.nextIndex = (this.nextIndex + 1) % MAX_SAMPLES;
+  }
+
+  /**
+   * Get velocity in pixels per millisecond over the last `window` milliseconds
+   */
+  public getVelocity(
+    window: number,
+    estimation: VelocityEstimation = 'linear'
+  ): { x: number; y: number } {
+    const samples = this.getRecentSamples(window);
+    if (samples.length < 2) {
+      return { x: 0, y: 0 };
+    }
+
+    if (estimation === 'least_squares') {
+      const fitted = this.fitLeastSquares(samples);
+      if (fitted) return fitted;
+    }
+
+    const first = samples[0];
+    const last = samples[samples.length - 1];
+    const timeDelta = last.timestamp - first.timestamp;
+    if (timeDelta <= 0) {
+      return { x: 0, y: 0 };
+    }
+
+    return {
+      x: (last.x - first.x) / timeDelta,
+      y: (last.y - first.y) / timeDelta
+    };
+  }
+
+  /**
+   * Remove all samples
+   */
+  public reset(): void {
+    this.samples = [];
+    this.nextIndex = 0;
+  }
+
+  /**
+   * Get samples within the window ending at the latest sample, oldest first.
+   * Sparse input keeps at least the last two samples.
+   */
+  private getRecentSamples(window: number): VelocitySample[] {
+    const ordered = this.samples.length < MAX_SAMPLES
+      ? this.samples
+      : [...this.samples.slice(this.nextIndex), ...this.samples.slice(0, this.nextIndex)];
+    if (ordered.length === 0) return [];
+
+    const latest = ordered[ordered.length - 1].timestamp;
+    const firstInWindow = ordered.findIndex(sample => latest - sample.timestamp <= window);
+    return ordered.slice(Math.max(0, Math.min(firstInWindow, ordered.length - 2)));
+  }
+
+  /**
+   * Fit a line through the samples over time; its slope is the velocity
+   */
+  private fitLeastSquares(samples: VelocitySample[]): { x: number; y: number } | null {
+    const count = samples.length;
+    const meanT = samples.reduce((sum, sample) => sum + sample.timestamp, 0) / count;
+    const meanX = samples.reduce((sum, sample) => sum + sample.x, 0) / count;
+    const meanY = samples.reduce((sum, sample) => sum + sample.y, 0) / count;
+
+    let varianceT = 0;
+    let covarianceX = 0;
+    let covarianceY = 0;
+    samples.forEach(sample => {
+      const dt = sample.timestamp - meanT;
+      varianceT += dt * dt;
+      covarianceX += dt * (sample.x - meanX);
+      covarianceY += dt * (sample.y - meanY);
+    });
+
+    if (varianceT === 0) return null;
+
+    return { x: covarianceX / varianceT, y: covarianceY / varianceT };
+  }
+}
@@ -9,9 +9,13 @@ import {
   TouchControlConfig, 
   GestureEvent, 
   GestureType,
+  GestureName,
   TouchPoint,
   PerformanceMetrics,
-  TouchTarget
+  TouchTarget,
+  TargetGestureEvent,
+  StorageAdapter,
+  HapticBackend
 } from '../types/TouchTypes';
 
 interface UseTouchControlsOptions {
@@ -20,6 +24,8 @@ interface UseTouchControlsOptions {
   onTouchStart?: (touch: TouchPoint) => void;
   onTouchMove?: (touch: TouchPoint) => void;
   onTouchEnd?: (touch: TouchPoint) => void;
+  bindingStorage?: StorageAdapter;
+  hapticBackend?: HapticBackend;
   autoCleanup?: boolean;
 }
 
@@ -31,8 +37,18 @@ interface UseTouchControlsReturn {
   unregisterTouchTarget: (targetId: string) => void;
   setEnabled: (enabled: boolean) => void;
   updateConfig: (newConfig: Partial<TouchControlConfig>) => void;
-  onGesture: (gestureType: GestureType, callback: (event: GestureEvent) => void) => void;
-  offGesture: (gestureType: GestureType, callback: (event: GestureEvent) => void) => void;
+  onGesture: (gestureType: GestureName, callback: (event: GestureEvent) => void) => void;
+  offGesture: (gestureType: GestureName, callback: (event: GestureEvent) => void) => void;
+  onTargetGesture: (
+    targetIds: string | string[],
+    gestureType: GestureName,
+    callback: (event: TargetGestureEvent) => void
+  ) => void;
+  offTargetGesture: (
+    targetIds: string | string[],
+    gestureType: GestureName,
+    callback: (event: TargetGestureEvent) => void
+  ) => void;
   getAccessibilityStatus: () => any;
   destroy: () => void;
 }
@@ -44,6 +60,8 @@ export const useTouchControls = (options: UseTouchControlsOptions = {}): UseTouc
     onTouchStart,
     onTouchMove,
     onTouchEnd,
+    bindingStorage,
+    hapticBackend,
     autoCleanup = true
   } = options;
 
@@ -65,7 +83,18 @@ export const useTouchControls = (options: UseTouchControlsOptions = {}): UseTouc
       maxDuration: 2000,
       velocityThreshold: 0.3,
       scaleThreshold: 0.1,
-      rotationThreshold: 15
+      rotationThreshold: 15,
+      doubleTapInterval: 300,
+      doubleTapSlop: 30,
+      longPressDuration: 500,
+      edgeInset: 20,
+      forceTouchThreshold: 0.75,
+      forceTouchReleaseThreshold: 0.5,
+      forceTouchFallback: 'none',
+      shapeMinScore: 0.8,
+      velocityWindow: 100,
+      velocityEstimation: 'linear',
+      flingDeceleration: 0.002
     },
     accessibility: {
       screenReaderEnabled: false,
@@ -87,7 +116,12 @@ export const useTouchControls = (options: UseTouchControlsOptions = {}): UseTouc
 
   // Initialize touch control manager
   useEffect(() => {
-    touchControlManagerRef.current = new TouchControlManager(finalConfig);
+    touchControlManagerRef.current = new TouchControlManager(finalConfig, { bindingStorage, hapticBackend });
+
+    // Apply the player's saved gesture bindings; if they can't be loaded the defaults stay
+    if (bindingStorage) {
+      touchControlManagerRef.current.getBindingStore().load();
+    }
 
     // Set up global callbacks
     if (onGesture) {
@@ -111,7 +145,7 @@ export const useTouchControls = (options: UseTouchControlsOptions = {}): UseTouc
         cleanup();
       }
     };
-  }, [finalConfig, onGesture, autoCleanup]);
+  }, [finalConfig, onGesture, bindingStorage, hapticBackend, autoCleanup]);
 
   // Cleanup function
   const cleanup = useCallback(() => {
@@ -148,15 +182,31 @@ export const useTouchControls = (options: UseTouchControlsOptions = {}): UseTouc
   }, []);
 
   // Register gesture callback
-  const onGestureCallback = useCallback((gestureType: GestureType, callback: (event: GestureEvent) => void) => {
+  const onGestureCallback = useCallback((gestureType: GestureName, callback: (event: GestureEvent) => void) => {
     touchControlManagerRef.current?.onGesture(gestureType, callback);
   }, []);
 
   // Unregister gesture callback
-  const offGestureCallback = useCallback((gestureType: GestureType, callback: (event: GestureEvent) => void) => {
+  const offGestureCallback = useCallback((gestureType: GestureName, callback: (event: GestureEvent) => void) => {
     touchControlManagerRef.current?.offGesture(gestureType, callback);
   }, []);
 
+  // Register callback for gestures on a touch target
+  const onTargetGestureCallback = useCallback(
+    (targetIds: string | string[], gestureType: GestureName, callback: (event: TargetGestureEvent) => void) => {
+      touchControlManagerRef.current?.onTargetGesture(targetIds, gestureType, callback);
+    },
+    []
+  );
+
+  // Unregister callback for gestures on a touch target
+  const offTargetGestureCallback = useCallback(
+    (targetIds: string | string[], gestureType: GestureName, callback: (event: TargetGestureEvent) => void) => {
+      touchControlManagerRef.current?.offTargetGesture(targetIds, gestureType, callback);
+    },
+    []
+  );
+
   // Get accessibility status
   const getAccessibilityStatus = useCallback(() => {
     return touchControlManagerRef.current?.getAccessibilityStatus();
@@ -177,6 +227,8 @@ export const useTouchControls = (options: UseTouchControlsOptions = {}): UseTouc
     updateConfig,
     onGesture: onGestureCallback,
     offGesture: offGestureCallback,
+    onTargetGesture: onTargetGestureCallback,
+    offTargetGesture: offTargetGestureCallback,
     getAccessibilityStatus,
     destroy
   };
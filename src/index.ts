@@ -6,6 +6,9 @@
 // Core components
 export { TouchControlView } from './components/TouchControlView';
 export { TouchTarget } from './components/TouchTarget';
+export { VirtualJoystick } from './components/VirtualJoystick';
+export { HudLayoutView } from './components/HudLayoutView';
+export { VisualFeedbackOverlay } from './components/VisualFeedbackOverlay';
 
 // Hooks
 export { useTouchControls } from './hooks/useTouchControls';
@@ -16,6 +19,26 @@ export { GestureRecognizer } from './core/GestureRecognizer';
 export { AccessibilityManager } from './core/AccessibilityManager';
 export { PerformanceMonitor } from './core/PerformanceMonitor';
 export { FeedbackManager } from './core/FeedbackManager';
+export { NativeHapticBackend, RecordingHapticBackend, getHapticPattern } from './core/HapticBackend';
+export { HapticSequencePlayer, validateHapticSequence, getEnvelopeIntensity } from './core/HapticSequencePlayer';
+export { HapticSequenceRegistry, defaultHapticSequences } from './core/HapticSequenceRegistry';
+export { NativeAudioBackend, FakeAudioBackend } from './core/AudioBackend';
+export { SoundBank, defaultSoundBank } from './core/SoundBank';
+export { FeedbackScheduler } from './core/FeedbackScheduler';
+export { CustomGestureRecognizer } from './core/CustomGestureRecognizer';
+export { GestureArbiter } from './core/GestureArbiter';
+export { ShapeRecognizer } from './core/ShapeRecognizer';
+export { VelocityTracker } from './core/VelocityTracker';
+export { HudLayout } from './core/HudLayout';
+export { GestureBindingStore, defaultGestureBindings, DEFAULT_BINDING_NAMESPACE } from './core/GestureBindingStore';
+export { systemClock, VirtualClock } from './core/Clock';
+export { TouchRecorder, TOUCH_RECORDING_VERSION } from './core/TouchRecorder';
+export { TouchReplayer, getSettledTime } from './core/TouchReplayer';
+export { GameCommandMapper, defaultGameCommandBindings, GAME_COMMAND_NAMESPACE } from './core/GameCommandMapper';
+
+// Testing
+export { GestureSimulator } from './testing/GestureSimulator';
+export { GestureBenchmark, NO_GESTURE } from './testing/GestureBenchmark';
 
 // Services
 export { 
@@ -51,7 +74,19 @@ export const defaultTouchControlConfig = {
     velocityThreshold: 0.3,
     scaleThreshold: 0.1,
     rotationThreshold: 15,
+    doubleTapInterval: 300,
+    doubleTapSlop: 30,
+    longPressDuration: 500,
+    edgeInset: 20,
+    forceTouchThreshold: 0.75,
+    forceTouchReleaseThreshold: 0.5,
+    forceTouchFallback: 'none' as const,
+    shapeMinScore: 0.8,
+    velocityWindow: 100,
+    velocityEstimation: 'linear' as const,
+    flingDeceleration: 0.002,
   },
+  exclusiveGestures: false,
   accessibility: {
     screenReaderEnabled: false,
     voiceControlEnabled: false,
@@ -0,0 +1,277 @@
+/**
+ * Gesture Benchmark
+ * Measures recognition accuracy and latency over a labelled corpus of touch recordings
+ */
+
+import { GestureRecognizer } from '../core/GestureRecognizer';
+import { PerformanceMonitor } from '../core/PerformanceMonitor';
+import { VirtualClock } from '../core/Clock';
+import { getSettledTime } from '../core/TouchReplayer';
+import { supportsForceTouch } from '../utils/TouchUtils';
+import {
+  GestureBenchmarkReport,
+  GestureBenchmarkResult,
+  GestureBenchmarkThresholds,
+  GestureClassMetrics,
+  GestureConfig,
+  GestureEvent,
+  GestureName,
+  GesturePhase,
+  GestureType,
+  LabelledTouchRecording
+} from '../types/TouchTypes';
+
+// Label of recordings that shouldn't be recognized as any gesture
+export const NO_GESTURE = 'none';
+
+interface GestureBenchmarkOptions {
+  // Overrides the gesture config of every recording, to evaluate tuned values
+  gestureConfig?: Partial<GestureConfig>;
+  thresholds?: GestureBenchmarkThresholds;
+  // Receives every result, so its error and success rates reflect the corpus
+  performanceMonitor?: PerformanceMonitor;
+}
+
+interface RecognizedGesture {
+  event: GestureEvent;
+  latency: number;
+}
+
+export class GestureBenchmark {
+  private gestureConfig: Partial<GestureConfig>;
+  private thresholds: GestureBenchmarkThresholds;
+  private performanceMonitor: PerformanceMonitor | null;
+
+  constructor(options: GestureBenchmarkOptions = {}) {
+    this.gestureConfig = options.gestureConfig || {};
+    this.thresholds = options.thresholds || {};
+    this.performanceMonitor = options.performanceMonitor || null;
+  }
+
+  /**
+   * Recognize every recording of the corpus and compare the predictions with the labels
+   */
+  public run(corpus: LabelledTouchRecording[]): GestureBenchmarkReport {
+    const results = corpus.map(entry => this.evaluate(entry));
+    results.forEach(result =>
+      this.performanceMonitor?.recordGesture(result.label, result.correct, result.latency ?? undefined)
+    );
+
+    const labels = this.orderLabels(results);
+    const confusionMatrix = labels.map(() => labels.map(() => 0));
+    results.forEach(result => {
+      confusionMatrix[labels.indexOf(result.label)][labels.indexOf(result.predicted)]++;
+    });
+
+    const gestures: Record<GestureName, GestureClassMetrics> = {};
+    labels.forEach(label => {
+      gestures[label] = this.calculateClassMetrics(label, results);
+    });
+
+    const correctCount = results.filter(result => result.correct).length;
+    const report: GestureBenchmarkReport = {
+      labels,
+      confusionMatrix,
+      gestures,
+      accuracy: results.length > 0 ? correctCount / results.length : 1,
+      averageLatency: this.averageLatency(results.filter(result => result.correct)),
+      results,
+      failures: [],
+      passed: true
+    };
+
+    report.failures = this.checkThresholds(report);
+    report.passed = report.failures.length === 0;
+    return report;
+  }
+
+  /**
+   * Render a report as a plain text confusion matrix and per-gesture table
+   */
+  public static formatReport(report: GestureBenchmarkReport): string {
+    const width = Math.max(10, ...report.labels.map(label => label.length)) + 2;
+    const cell = (value: string) => value.padStart(width);
+    const ratio = (value: number | null) => (value === null ? '-' : value.toFixed(2));
+
+    const lines = [
+      `${'label \\ predicted'.padEnd(width)}${report.labels.map(cell).join('')}`,
+      ...report.labels.map(
+        (label, row) => `${label.padEnd(width)}${report.confusionMatrix[row].map(count => cell(String(count))).join('')}`
+      ),
+      '',
+      `${'gesture'.padEnd(width)}${['support', 'precision', 'recall', 'latency'].map(cell).join('')}`,
+      ...report.labels.map(label => {
+        const metrics = report.gestures[label];
+        const latency = metrics.averageLatency === null ? '-' : `${Math.round(metrics.averageLatency)}ms`;
+        return `${label.padEnd(width)}${[
+          String(metrics.support),
+          ratio(metrics.precision),
+          ratio(metrics.recall),
+          latency
+        ].map(cell).join('')}`;
+      }),
+      '',
+      `accuracy ${ratio(report.accuracy)}`,
+      ...report.failures.map(failure => `FAILED: ${failure}`)
+    ];
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Replay a recording through a fresh recognizer on a virtual clock and
+   * predict the gesture it was recognized as
+   */
+  private evaluate(entry: LabelledTouchRecording): GestureBenchmarkResult {
+    const { recording } = entry;
+    const gestureConfig: GestureConfig = { ...recording.config.gestureConfig, ...this.gestureConfig };
+    const clock = new VirtualClock(recording.startTime);
+    const recognizer = new GestureRecognizer(gestureConfig, clock);
+    const maxPressure = recording.events.reduce((max, event) => Math.max(max, event.touch.pressure || 0), 0);
+    recognizer.setPressureSupported(supportsForceTouch(recording.config.platform, 0, maxPressure));
+    if (recording.viewport) {
+      recognizer.setViewportSize(recording.viewport.width, recording.viewport.height);
+    }
+
+    const recognized: RecognizedGesture[] = [];
+    // Latency counts from the last finger going down or lifting; moves don't reset it
+    let lastContactTime = recording.startTime;
+    const recordGesture = (event: GestureEvent | null) => {
+      if (event) {
+        recognized.push({ event, latency: clock.now() - lastContactTime });
+      }
+    };
+    recognizer.setGestureListener(recordGesture);
+
+    recording.events.forEach(event => {
+      // Timers due before the touch, such as a long press, fire first
+      clock.advanceTo(event.time);
+      if (event.type !== 'move') {
+        lastContactTime = event.time;
+      }
+
+      switch (event.type) {
+        case 'start':
+          recognizer.onTouchStart(event.touch);
+          break;
+        case 'move':
+          recognizer.onTouchMove(event.touch);
+          break;
+        case 'end':
+          recordGesture(recognizer.onTouchEnd(event.touch));
+          break;
+        case 'cancel':
+          recordGesture(recognizer.onTouchCancel(event.touch));
+          break;
+      }
+    });
+
+    // Let gestures held back after the last touch, such as a single tap, resolve
+    clock.advanceTo(getSettledTime(recording, gestureConfig));
+    recognizer.destroy();
+
+    const prediction = this.predict(recognized);
+    const predicted = prediction ? prediction.event.type : NO_GESTURE;
+
+    return {
+      name: entry.name,
+      label: entry.label,
+      predicted,
+      correct: predicted === entry.label,
+      latency: prediction ? prediction.latency : null
+    };
+  }
+
+  /**
+   * Pick the gesture a recording was recognized as. A swipe also reports a pan
+   * while the finger moves, so the last discrete gesture wins; otherwise the
+   * first continuous gesture that ended, timed from when it began.
+   */
+  private predict(recognized: RecognizedGesture[]): RecognizedGesture | null {
+    const discrete = recognized.filter(gesture => !gesture.event.phase);
+    if (discrete.length > 0) {
+      return discrete[discrete.length - 1];
+    }
+
+    const ended = recognized.find(gesture => gesture.event.phase === GesturePhase.ENDED);
+    return ended ? recognized.find(gesture => gesture.event.type === ended.event.type)! : null;
+  }
+
+  /**
+   * Order labels and predictions: built-in gestures first, then custom
+   * gestures, then no gesture
+   */
+  private orderLabels(results: GestureBenchmarkResult[]): GestureName[] {
+    const builtIn: string[] = Object.values(GestureType);
+    const rank = (label: GestureName) =>
+      label === NO_GESTURE ? builtIn.length + 1 : builtIn.includes(label) ? builtIn.indexOf(label) : builtIn.length;
+
+    const labels = new Set<GestureName>();
+    results.forEach(result => {
+      labels.add(result.label);
+      labels.add(result.predicted);
+    });
+
+    return Array.from(labels).sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+  }
+
+  /**
+   * Calculate precision, recall and latency of one gesture
+   */
+  private calculateClassMetrics(label: GestureName, results: GestureBenchmarkResult[]): GestureClassMetrics {
+    const truePositives = results.filter(result => result.label === label && result.correct);
+    const falsePositives = results.filter(result => result.predicted === label && !result.correct).length;
+    const falseNegatives = results.filter(result => result.label === label && !result.correct).length;
+    const predictedCount = truePositives.length + falsePositives;
+    const support = truePositives.length + falseNegatives;
+
+    return {
+      support,
+      truePositives: truePositives.length,
+      falsePositives,
+      falseNegatives,
+      precision: predictedCount > 0 ? truePositives.length / predictedCount : null,
+      recall: support > 0 ? truePositives.length / support : null,
+      averageLatency: this.averageLatency(truePositives)
+    };
+  }
+
+  /**
+   * Average the latency of results, or null if none has one
+   */
+  private averageLatency(results: GestureBenchmarkResult[]): number | null {
+    const latencies = results
+      .map(result => result.latency)
+      .filter((latency): latency is number => latency !== null);
+
+    return latencies.length > 0 ? latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length : null;
+  }
+
+  /**
+   * Describe every threshold the report fails to meet
+   */
+  private checkThresholds(report: GestureBenchmarkReport): string[] {
+    const { minAccuracy, minPrecision, minRecall, maxAverageLatency } = this.thresholds;
+    const failures: string[] = [];
+
+    if (minAccuracy !== undefined && report.accuracy < minAccuracy) {
+      failures.push(`accuracy ${report.accuracy.toFixed(2)} is below ${minAccuracy}`);
+    }
+
+    report.labels.forEach(label => {
+      const { precision, recall, averageLatency } = report.gestures[label];
+
+      if (minPrecision !== undefined && precision !== null && precision < minPrecision) {
+        failures.push(`${label} precision ${precision.toFixed(2)} is below ${minPrecision}`);
+      }
+      if (minRecall !== undefined && recall !== null && recall < minRecall) {
+        failures.push(`${label} recall ${recall.toFixed(2)} is below ${minRecall}`);
+      }
+      if (maxAverageLatency !== undefined && averageLatency !== null && averageLatency > maxAverageLatency) {
+        failures.push(`${label} latency ${Math.round(averageLatency)}ms is above ${maxAverageLatency}ms`);
+      }
+    });
+
+    return failures;
+  }
+}
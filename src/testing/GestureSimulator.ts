@@ -0,0 +1,332 @@
+/**
+ * Gesture Simulator
+ * Generates realistic touch streams and plays them through a manager, for tests
+ */
+
+import { TouchControlManager } from '../core/TouchControlManager';
+import { TouchReplayer } from '../core/TouchReplayer';
+import { TOUCH_RECORDING_VERSION } from '../core/TouchRecorder';
+import { VirtualClock } from '../core/Clock';
+import {
+  GestureEvent,
+  GestureName,
+  RecordedTouchEvent,
+  ScreenEdge,
+  TouchControlConfig,
+  TouchEventType,
+  TouchRecording,
+  VelocityProfile
+} from '../types/TouchTypes';
+
+const DEFAULT_SAMPLING_RATE = 60;
+const DEFAULT_PRESSURE = 0.5;
+const DEFAULT_TAP_DURATION = 60;
+const DEFAULT_DOUBLE_TAP_INTERVAL = 150;
+// Edge swipes start this far inside the screen edge
+const EDGE_START_INSET = 2;
+
+const PROFILES: Record<string, (t: number) => number> = {
+  linear: t => t,
+  ease_in: t => t * t,
+  ease_out: t => 1 - (1 - t) * (1 - t),
+  ease_in_out: t => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2)
+};
+
+interface GestureSimulatorOptions {
+  // Touch samples per second while a finger is down
+  samplingRate?: number;
+  // Maximum random offset of each sample, in pixels
+  jitter?: number;
+  // Seed of the jitter, so that runs are repeatable
+  seed?: number;
+  startTime?: number;
+  viewport?: { width: number; height: number };
+}
+
+interface SimulatedSwipe {
+  from: { x: number; y: number };
+  to: { x: number; y: number };
+  duration?: number;
+  profile?: VelocityProfile;
+}
+
+interface SimulatedPinch {
+  centerX: number;
+  centerY: number;
+  startDistance?: number;
+  endDistance?: number;
+  // Angle of the line between the fingers, in degrees
+  startAngle?: number;
+  rotation?: number;
+  duration?: number;
+  profile?: VelocityProfile;
+}
+
+interface SimulatedEdgeSwipe {
+  distance?: number;
+  // Position along the edge; defaults to its middle
+  position?: number;
+  duration?: number;
+  profile?: VelocityProfile;
+}
+
+interface SimulatedRun {
+  setup?: (manager: TouchControlManager) => void;
+  gestures?: GestureName[];
+}
+
+interface FingerPath {
+  identifier: number;
+  position: (progress: number) => { x: number; y: number };
+}
+
+export class GestureSimulator {
+  private samplingRate: number;
+  private jitter: number;
+  private seed: number;
+  private startTime: number;
+  private viewport: { width: number; height: number };
+  private time: number;
+  private nextIdentifier: number = 1;
+  private events: RecordedTouchEvent[] = [];
+
+  constructor(options: GestureSimulatorOptions = {}) {
+    this.samplingRate = options.samplingRate ?? DEFAULT_SAMPLING_RATE;
+    this.jitter = options.jitter ?? 0;
+    // The generator needs a seed between 1 and 2^31 - 2
+    this.seed = Math.abs(Math.floor(options.seed ?? 1)) % 2147483646 || 1;
+    this.startTime = options.startTime ?? 0;
+    this.viewport = options.viewport || { width: 375, height: 812 };
+    this.time = this.startTime;
+  }
+
+  /**
+   * Tap a point
+   */
+  public tap(x: number, y: number, duration: number = DEFAULT_TAP_DURATION): this {
+    return this.stroke([this.createFinger(() => ({ x, y }))], duration);
+  }
+
+  /**
+   * Tap a point twice, starting the second tap `interval` milliseconds after the first
+   */
+  public doubleTap(x: number, y: number, interval: number = DEFAULT_DOUBLE_TAP_INTERVAL): this {
+    const tapDuration = Math.min(DEFAULT_TAP_DURATION, interval / 2);
+    return this.tap(x, y, tapDuration)
+      .wait(interval - tapDuration)
+      .tap(x, y, tapDuration);
+  }
+
+  /**
+   * Hold a finger still on a point
+   */
+  public hold(x: number, y: number, duration: number): this {
+    return this.stroke([this.createFinger(() => ({ x, y }))], duration);
+  }
+
+  /**
+   * Drag a finger in a straight line, moving along the velocity profile
+   */
+  public swipe({ from, to, duration = 150, profile = 'linear' }: SimulatedSwipe): this {
+    const ease = this.getProfile(profile);
+    const finger = this.createFinger(progress => ({
+      x: from.x + (to.x - from.x) * ease(progress),
+      y: from.y + (to.y - from.y) * ease(progress)
+    }));
+    return this.stroke([finger], duration);
+  }
+
+  /**
+   * Move two fingers around a center, changing their distance and angle
+   */
+  public pinch({
+    centerX,
+    centerY,
+    startDistance = 100,
+    endDistance = startDistance,
+    startAngle = 0,
+    rotation = 0,
+    duration = 300,
+    profile = 'linear'
+  }: SimulatedPinch): this {
+    const ease = this.getProfile(profile);
+    const fingerAt = (side: number) => (progress: number) => {
+      const eased = ease(progress);
+      const radius = (startDistance + (endDistance - startDistance) * eased) / 2;
+      const angle = ((startAngle + rotation * eased) * Math.PI) / 180;
+      return {
+        x: centerX + side * radius * Math.cos(angle),
+        y: centerY + side * radius * Math.sin(angle)
+      };
+    };
+
+    return this.stroke([this.createFinger(fingerAt(-1)), this.createFinger(fingerAt(1))], duration);
+  }
+
+  /**
+   * Rotate two fingers around a center by `rotation` degrees at a fixed distance
+   */
+  public rotate(options: Omit<SimulatedPinch, 'endDistance'>): this {
+    return this.pinch({ ...options, endDistance: options.startDistance });
+  }
+
+  /**
+   * Swipe inwards from a screen edge
+   */
+  public edgeSwipe(
+    edge: ScreenEdge,
+    { distance = 150, position, duration = 150, profile = 'linear' }: SimulatedEdgeSwipe = {}
+  ): this {
+    const { width, height } = this.viewport;
+    const along = position ?? (edge === ScreenEdge.LEFT || edge === ScreenEdge.RIGHT ? height : width) / 2;
+
+    const from = {
+      [ScreenEdge.LEFT]: { x: EDGE_START_INSET, y: along },
+      [ScreenEdge.RIGHT]: { x: width - EDGE_START_INSET, y: along },
+      [ScreenEdge.TOP]: { x: along, y: EDGE_START_INSET },
+      [ScreenEdge.BOTTOM]: { x: along, y: height - EDGE_START_INSET }
+    }[edge];
+    const direction = {
+      [ScreenEdge.LEFT]: { x: 1, y: 0 },
+      [ScreenEdge.RIGHT]: { x: -1, y: 0 },
+      [ScreenEdge.TOP]: { x: 0, y: 1 },
+      [ScreenEdge.BOTTOM]: { x: 0, y: -1 }
+    }[edge];
+
+    return this.swipe({
+      from,
+      to: { x: from.x + direction.x * distance, y: from.y + direction.y * distance },
+      duration,
+      profile
+    });
+  }
+
+  /**
+   * Let time pass before the next gesture
+   */
+  public wait(duration: number): this {
+    this.time += Math.max(0, duration);
+    return this;
+  }
+
+  /**
+   * Get the simulated touches as a recording
+   */
+  public toRecording(config: TouchControlConfig): TouchRecording {
+    return {
+      version: TOUCH_RECORDING_VERSION,
+      config,
+      viewport: { ...this.viewport },
+      startTime: this.startTime,
+      endTime: this.time,
+      events: this.events.map(event => ({ ...event, touch: { ...event.touch } }))
+    };
+  }
+
+  /**
+   * Play the touches through a fresh manager and return the recognized gesture
+   * events. Time keeps running after the last touch until timers such as a
+   * held single tap have resolved.
+   */
+  public run(config: TouchControlConfig, options: SimulatedRun = {}): GestureEvent[] {
+    return new TouchReplayer(this.toRecording(config)).replay(options);
+  }
+
+  /**
+   * Play the touches through an existing manager driven by `clock` and return
+   * the recognized gesture events
+   */
+  public feed(manager: TouchControlManager, clock: VirtualClock, gestures: GestureName[] = []): GestureEvent[] {
+    const recording = this.toRecording(manager.getConfig());
+    const offset = clock.now() - recording.startTime;
+
+    // Shift the touches to start at the clock's current time
+    const shifted: TouchRecording = {
+      ...recording,
+      startTime: recording.startTime + offset,
+      endTime: recording.endTime + offset,
+      events: recording.events.map(event => ({
+        ...event,
+        time: event.time + offset,
+        touch: { ...event.touch, timestamp: event.touch.timestamp + offset }
+      }))
+    };
+
+    return new TouchReplayer(shifted).feed(manager, clock, gestures);
+  }
+
+  /**
+   * Clear the simulated touches
+   */
+  public reset(): void {
+    this.events = [];
+    this.time = this.startTime;
+    this.nextIdentifier = 1;
+  }
+
+  /**
+   * Emit the touches of fingers that go down together, move along their paths
+   * and lift together after `duration` milliseconds
+   */
+  private stroke(fingers: FingerPath[], duration: number): this {
+    const startTime = this.time;
+    const interval = 1000 / this.samplingRate;
+    const sampleCount = Math.max(1, Math.ceil(duration / interval));
+
+    fingers.forEach(finger => this.addTouch('start', finger, 0, startTime));
+    for (let sample = 1; sample < sampleCount; sample++) {
+      const elapsed = sample * interval;
+      fingers.forEach(finger => this.addTouch('move', finger, elapsed / duration, startTime + elapsed));
+    }
+    // Report the final position before lifting, as touch screens do
+    fingers.forEach(finger => this.addTouch('move', finger, 1, startTime + duration));
+    fingers.forEach(finger => this.addTouch('end', finger, 1, startTime + duration));
+
+    this.time = startTime + duration;
+    return this;
+  }
+
+  /**
+   * Add one touch of a finger at a point of its path
+   */
+  private addTouch(type: TouchEventType, finger: FingerPath, progress: number, time: number): void {
+    const position = finger.position(Math.min(1, Math.max(0, progress)));
+    this.events.push({
+      type,
+      time,
+      touch: {
+        x: position.x + this.nextJitter(),
+        y: position.y + this.nextJitter(),
+        timestamp: time,
+        identifier: finger.identifier,
+        pressure: DEFAULT_PRESSURE
+      }
+    });
+  }
+
+  /**
+   * Create a finger with a new touch identifier
+   */
+  private createFinger(position: (progress: number) => { x: number; y: number }): FingerPath {
+    return { identifier: this.nextIdentifier++, position };
+  }
+
+  /**
+   * Resolve a velocity profile to its easing function
+   */
+  private getProfile(profile: VelocityProfile): (t: number) => number {
+    return typeof profile === 'function' ? profile : PROFILES[profile] || PROFILES.linear;
+  }
+
+  /**
+   * Get a random offset within the jitter, from a seeded Park-Miller generator
+   */
+  private nextJitter(): number {
+    if (this.jitter <= 0) return 0;
+
+    this.seed = (this.seed * 16807) % 2147483647;
+    const random = (this.seed - 1) / 2147483646;
+
+    return (random * 2 - 1) * this.jitter;
+  }
+}
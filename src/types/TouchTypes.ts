@@ -20,6 +20,9 @@ export interface GestureState {
   velocityY: number;
   scale: number;
   rotation: number;
+  centroidX: number;
+  centroidY: number;
+  pressure: number;
   isActive: boolean;
   isRecognized: boolean;
 }
@@ -32,6 +35,17 @@ export interface GestureConfig {
   velocityThreshold: number;
   scaleThreshold: number;
   rotationThreshold: number;
+  doubleTapInterval?: number;
+  doubleTapSlop?: number;
+  longPressDuration?: number;
+  edgeInset?: number;
+  forceTouchThreshold?: number;
+  forceTouchReleaseThreshold?: number;
+  forceTouchFallback?: 'long_press' | 'none';
+  shapeMinScore?: number;
+  velocityWindow?: number;
+  velocityEstimation?: VelocityEstimation;
+  flingDeceleration?: number;
 }
 
 export interface TouchTarget {
@@ -41,19 +55,33 @@ export interface TouchTarget {
   width: number;
   height: number;
   minSize: number;
+  zIndex?: number;
+  parentId?: string;
   accessibilityLabel?: string;
   accessibilityHint?: string;
   accessibilityRole?: string;
 }
 
 export interface GestureEvent {
-  type: GestureType;
+  type: GestureName;
   state: GestureState;
   target?: TouchTarget;
   timestamp: number;
+  phase?: GesturePhase;
+  edge?: ScreenEdge;
+  shape?: ShapeMatch;
+  fling?: FlingData;
   nativeEvent?: any;
 }
 
+/**
+ * Gesture event delivered to a touch target while it bubbles to the target's parents
+ */
+export interface TargetGestureEvent extends GestureEvent {
+  currentTarget: TouchTarget;
+  stopPropagation: () => void;
+}
+
 export enum GestureType {
   TAP = 'tap',
   DOUBLE_TAP = 'double_tap',
@@ -66,7 +94,275 @@ export enum GestureType {
   PINCH = 'pinch',
   ROTATE = 'rotate',
   EDGE_SWIPE = 'edge_swipe',
-  FORCE_TOUCH = 'force_touch'
+  FORCE_TOUCH = 'force_touch',
+  SHAPE = 'shape'
+}
+
+/**
+ * Built-in gesture type or the name of a custom gesture recognizer
+ */
+export type GestureName = GestureType | string;
+
+export enum RecognizerState {
+  POSSIBLE = 'possible',
+  BEGAN = 'began',
+  CHANGED = 'changed',
+  ENDED = 'ended',
+  RECOGNIZED = 'recognized',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled'
+}
+
+export enum GesturePhase {
+  BEGAN = 'began',
+  CHANGED = 'changed',
+  ENDED = 'ended',
+  CANCELLED = 'cancelled'
+}
+
+export enum ScreenEdge {
+  LEFT = 'left',
+  RIGHT = 'right',
+  TOP = 'top',
+  BOTTOM = 'bottom'
+}
+
+export interface ShapePoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Single-stroke shape template, stored as JSON
+ */
+export interface ShapeTemplate {
+  name: string;
+  points: ShapePoint[];
+}
+
+export interface ShapeMatch {
+  name: string;
+  score: number;
+}
+
+/**
+ * How release velocity is estimated from recent samples: from the oldest to
+ * the newest sample, or from a least-squares line through all of them
+ */
+export type VelocityEstimation = 'linear' | 'least_squares';
+
+/**
+ * Momentum of a gesture at release, for inertial scrolling
+ */
+export interface FlingData {
+  velocityX: number;
+  velocityY: number;
+  speed: number;
+  direction: number;
+  projectedX: number;
+  projectedY: number;
+  duration: number;
+}
+
+export enum JoystickDirection {
+  UP = 'up',
+  UP_RIGHT = 'up_right',
+  RIGHT = 'right',
+  DOWN_RIGHT = 'down_right',
+  DOWN = 'down',
+  DOWN_LEFT = 'down_left',
+  LEFT = 'left',
+  UP_LEFT = 'up_left'
+}
+
+/**
+ * Joystick deflection; x and y range from -1 to 1 with y pointing down
+ */
+export interface JoystickVector {
+  x: number;
+  y: number;
+  magnitude: number;
+  angle: number;
+  direction: JoystickDirection | null;
+}
+
+export enum HudAnchor {
+  TOP_LEFT = 'top_left',
+  TOP = 'top',
+  TOP_RIGHT = 'top_right',
+  LEFT = 'left',
+  CENTER = 'center',
+  RIGHT = 'right',
+  BOTTOM_LEFT = 'bottom_left',
+  BOTTOM = 'bottom',
+  BOTTOM_RIGHT = 'bottom_right'
+}
+
+/**
+ * Position of a HUD button: the offset of its center from an anchor point of
+ * the safe area, with x pointing right and y pointing down
+ */
+export interface HudButtonLayout {
+  id: string;
+  anchor: HudAnchor;
+  offsetX: number;
+  offsetY: number;
+  size: number;
+}
+
+export interface HudButtonRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SafeAreaInsets {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/**
+ * Asynchronous key-value storage, such as AsyncStorage
+ */
+export interface StorageAdapter {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+/**
+ * Gesture that triggers an action, anywhere or only on one touch target
+ */
+export interface GestureBinding<A extends string = string> {
+  action: A;
+  gesture: GestureName;
+  targetId?: string;
+}
+
+/**
+ * Actions bound to the same gesture on the same target
+ */
+export interface BindingConflict<A extends string = string> {
+  gesture: GestureName;
+  targetId?: string;
+  actions: A[];
+}
+
+export enum GameCommand {
+  MOVE_OR_ATTACK = 'move_or_attack',
+  INSPECT = 'inspect',
+  ZOOM = 'zoom',
+  OPEN_CHAT = 'open_chat',
+  TOGGLE_ACHIEVEMENTS = 'toggle_achievements'
+}
+
+export type GameCommandBinding = GestureBinding<GameCommand>;
+
+/**
+ * Game actions driven by game commands. Positions are screen coordinates.
+ */
+export interface GameCommandAdapter {
+  // Move to, attack or loot whatever is at the position
+  moveOrAttack(x: number, y: number): void;
+  inspect(x: number, y: number): void;
+  zoom(scale: number, phase: GesturePhase): void;
+  openChat(): void;
+  toggleAchievements(): void;
+}
+
+export type ClockTimer = ReturnType<typeof setTimeout> | number;
+
+/**
+ * Source of the current time and of timers, so that time can be controlled
+ * in tests and replays
+ */
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, delay: number): ClockTimer;
+  clearTimeout(timer: ClockTimer): void;
+}
+
+export type TouchEventType = 'start' | 'move' | 'end' | 'cancel';
+
+/**
+ * How a simulated finger moves over time: a named easing or a function from
+ * elapsed fraction to travelled fraction, both ranging from 0 to 1
+ */
+export type VelocityProfile = 'linear' | 'ease_in' | 'ease_out' | 'ease_in_out' | ((t: number) => number);
+
+export interface RecordedTouchEvent {
+  type: TouchEventType;
+  // Clock time when the manager received the touch
+  time: number;
+  touch: TouchPoint;
+}
+
+/**
+ * Raw touch input captured from a manager, stored as versioned JSON
+ */
+export interface TouchRecording {
+  version: number;
+  config: TouchControlConfig;
+  viewport?: { width: number; height: number };
+  startTime: number;
+  endTime: number;
+  events: RecordedTouchEvent[];
+}
+
+/**
+ * A recorded touch stream labelled with the gesture it should be recognized
+ * as, or 'none' if it shouldn't be recognized as any gesture
+ */
+export interface LabelledTouchRecording {
+  name?: string;
+  label: GestureName;
+  recording: TouchRecording;
+}
+
+export interface GestureBenchmarkResult {
+  name?: string;
+  label: GestureName;
+  predicted: GestureName;
+  correct: boolean;
+  // Milliseconds from the last finger going down or lifting to the recognition
+  latency: number | null;
+}
+
+export interface GestureClassMetrics {
+  // Number of recordings labelled with the gesture
+  support: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  // Null when the gesture was never predicted
+  precision: number | null;
+  // Null when no recording is labelled with the gesture
+  recall: number | null;
+  averageLatency: number | null;
+}
+
+export interface GestureBenchmarkThresholds {
+  minAccuracy?: number;
+  // Applied to every gesture in the corpus
+  minPrecision?: number;
+  minRecall?: number;
+  maxAverageLatency?: number;
+}
+
+export interface GestureBenchmarkReport {
+  // Rows are labels, columns predictions; both use the order of `labels`
+  labels: GestureName[];
+  confusionMatrix: number[][];
+  gestures: Record<GestureName, GestureClassMetrics>;
+  accuracy: number;
+  averageLatency: number | null;
+  results: GestureBenchmarkResult[];
+  // Thresholds the benchmark failed to meet
+  failures: string[];
+  passed: boolean;
 }
 
 export enum TouchFeedbackType {
@@ -75,6 +371,182 @@ export enum TouchFeedbackType {
   AUDIO = 'audio'
 }
 
+/**
+ * Order in which queued feedback is delivered; higher priorities go first
+ * and are dropped last
+ */
+export enum FeedbackPriority {
+  LOW = 0,
+  NORMAL = 1,
+  HIGH = 2,
+  CRITICAL = 3
+}
+
+/**
+ * Rate limit of a feedback channel as a token bucket
+ */
+export interface FeedbackChannelLimit {
+  // Feedback per second once the burst is spent
+  rate: number;
+  // Feedback that may be delivered at once after a quiet period
+  burst: number;
+  // Milliseconds feedback may wait before it is too late to be useful
+  maxDelay?: number;
+}
+
+export interface FeedbackSchedulerStats {
+  delivered: number;
+  coalesced: number;
+  dropped: number;
+  pending: number;
+  // Feedback per second allowed across all channels
+  budget: number;
+}
+
+/**
+ * Haptic feedback types
+ */
+export enum HapticType {
+  LIGHT = 'light',
+  MEDIUM = 'medium',
+  HEAVY = 'heavy',
+  SELECTION = 'selection',
+  IMPACT = 'impact',
+  ROTATION = 'rotation',
+  SUCCESS = 'success',
+  ERROR = 'error',
+  WARNING = 'warning'
+}
+
+/**
+ * Audio feedback types
+ */
+export enum AudioType {
+  TAP = 'tap',
+  DOUBLE_TAP = 'double_tap',
+  LONG_PRESS = 'long_press',
+  SWIPE = 'swipe',
+  PINCH = 'pinch',
+  ROTATE = 'rotate',
+  SUCCESS = 'success',
+  ERROR = 'error',
+  WARNING = 'warning'
+}
+
+export enum VisualFeedbackType {
+  RIPPLE = 'ripple',
+  TRAIL = 'trail',
+  PINCH = 'pinch',
+  ROTATE = 'rotate',
+  PRESS = 'press'
+}
+
+/**
+ * A gesture, or the outcome of an action such as 'success', to give feedback
+ * for. Gesture events are feedback events as they are.
+ */
+export interface FeedbackEvent {
+  type: GestureName | 'success' | 'error' | 'warning';
+  phase?: GesturePhase;
+  timestamp?: number;
+  state?: GestureState;
+}
+
+/**
+ * What feedback is given for: a feedback event, or a gesture state while a
+ * gesture is tracked
+ */
+export type FeedbackData = FeedbackEvent | GestureState;
+
+/**
+ * What a visual feedback overlay should draw, in page coordinates. Ripples
+ * only end; the other types begin, change and end or cancel like gestures.
+ */
+export interface VisualFeedback {
+  type: VisualFeedbackType;
+  phase: GesturePhase;
+  x: number;
+  y: number;
+  timestamp: number;
+  scale?: number;
+  rotation?: number;
+  // Milliseconds a press takes to become a long press
+  duration?: number;
+}
+
+export interface HapticFeedback {
+  type: HapticType;
+  intensity: number;
+  // Platform haptic the type maps to at this intensity
+  pattern: string;
+}
+
+/**
+ * Plays haptic feedback on a device
+ */
+export interface HapticBackend {
+  trigger(feedback: HapticFeedback): void;
+}
+
+/**
+ * One step of a haptic sequence: a pulse of a haptic type at an intensity
+ * from 0 to 1, or a pause in milliseconds
+ */
+export type HapticSequenceStep =
+  | { pulse: HapticType; intensity?: number }
+  | { pause: number };
+
+export interface HapticEnvelopePoint {
+  // Milliseconds from the start of each repetition
+  time: number;
+  intensity: number;
+}
+
+/**
+ * Pulses and pauses played in order, such as a heartbeat or a staccato
+ */
+export interface HapticSequence {
+  steps: HapticSequenceStep[];
+  // Scales pulse intensity over time, interpolating between points
+  envelope?: HapticEnvelopePoint[];
+  // Times to play the steps
+  repeat?: number;
+  // Play the steps over and over until cancelled, instead of `repeat` times
+  loop?: boolean;
+  // A sequence pre-empts a playing sequence of the same or lower priority
+  priority?: number;
+}
+
+export enum AudioCategory {
+  UI = 'ui',
+  NOTIFICATION = 'notification',
+  GAME = 'game'
+}
+
+export interface SoundAsset {
+  // File name without extension, as bundled with the app
+  file: string;
+  category: AudioCategory;
+  // Volume relative to the category, from 0 to 1
+  volume?: number;
+}
+
+/**
+ * A sound loaded by an audio backend, playing one voice at a time
+ */
+export interface LoadedSound {
+  play(volume: number, onEnd: () => void): void;
+  stop(): void;
+  release(): void;
+}
+
+/**
+ * Loads sounds for playback on a device
+ */
+export interface AudioBackend {
+  load(file: string): Promise<LoadedSound>;
+}
+
 export interface AccessibilityConfig {
   screenReaderEnabled: boolean;
   voiceControlEnabled: boolean;
@@ -98,6 +570,8 @@ export interface TouchControlConfig {
   maxTouchTargetSize: number;
   spacingBetweenTargets: number;
   gestureConfig: GestureConfig;
+  exclusiveGestures?: boolean;
+  gestureBindings?: GestureBinding[];
   accessibility: AccessibilityConfig;
   performance: {
     maxRecognitionTime: number;
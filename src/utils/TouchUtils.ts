@@ -3,7 +3,13 @@
  * Helper functions for touch control calculations and validations
  */
 
-import { TouchPoint, TouchTarget, GestureState } from '../types/TouchTypes';
+import {
+  TouchPoint,
+  TouchTarget,
+  GestureState,
+  JoystickDirection,
+  JoystickVector
+} from '../types/TouchTypes';
 
 /**
  * Calculate distance between two touch points
@@ -71,6 +77,59 @@ export const findClosestTarget = (touch: TouchPoint, targets: TouchTarget[]): To
   return closestTarget;
 };
 
+/**
+ * Get the area that responds to touches, expanded around the target's center
+ * to at least the minimum touch target size
+ */
+export const getHitRect = (target: TouchTarget, minSize: number = 44): TouchTarget => {
+  const width = Math.max(target.width, minSize);
+  const height = Math.max(target.height, minSize);
+
+  return {
+    ...target,
+    x: target.x - (width - target.width) / 2,
+    y: target.y - (height - target.height) / 2,
+    width,
+    height
+  };
+};
+
+/**
+ * Find the topmost touch target under a touch point. Nested targets are above
+ * their parents, then targets with a higher zIndex, then targets registered
+ * later. A touch on a target's own bounds wins over one in another target's
+ * expanded hit area.
+ */
+export const findTargetAtPoint = (
+  touch: TouchPoint,
+  targets: TouchTarget[],
+  minSize: number = 44
+): TouchTarget | null => {
+  const allHits = targets.filter(target => isTouchInTarget(touch, getHitRect(target, minSize)));
+  if (allHits.length === 0) return null;
+
+  // Drop parents of other hit targets
+  const ancestorIds = new Set<string>();
+  allHits.forEach(target => {
+    let parentId = target.parentId;
+    while (parentId && !ancestorIds.has(parentId)) {
+      ancestorIds.add(parentId);
+      parentId = targets.find(candidate => candidate.id === parentId)?.parentId;
+    }
+  });
+  const hits = allHits.filter(target => !ancestorIds.has(target.id));
+
+  const topZIndex = Math.max(...hits.map(target => target.zIndex ?? 0));
+  const topHits = hits.filter(target => (target.zIndex ?? 0) === topZIndex);
+
+  const directHits = topHits.filter(target => isTouchInTarget(touch, target));
+  if (directHits.length > 0) {
+    return directHits[directHits.length - 1];
+  }
+
+  return findClosestTarget(touch, topHits);
+};
+
 /**
  * Validate touch target size meets accessibility requirements
  */
@@ -108,6 +167,56 @@ export const calculateGestureDirection = (deltaX: number, deltaY: number): strin
   }
 };
 
+/**
+ * Joystick directions clockwise from right, in screen coordinates
+ */
+const JOYSTICK_DIRECTIONS = [
+  JoystickDirection.RIGHT,
+  JoystickDirection.DOWN_RIGHT,
+  JoystickDirection.DOWN,
+  JoystickDirection.DOWN_LEFT,
+  JoystickDirection.LEFT,
+  JoystickDirection.UP_LEFT,
+  JoystickDirection.UP,
+  JoystickDirection.UP_RIGHT
+];
+
+/**
+ * Convert a joystick knob offset into a direction vector. Offsets inside the
+ * dead zone (a fraction of the radius) give no direction, and the magnitude
+ * grows from 0 at the dead zone edge to 1 at the radius. With 4 or 8
+ * directions the angle snaps to the nearest one.
+ */
+export const calculateJoystickVector = (
+  deltaX: number,
+  deltaY: number,
+  radius: number,
+  deadZone: number = 0,
+  directions?: 4 | 8
+): JoystickVector => {
+  const distance = Math.sqrt(deltaX * deltaX + deltaY * deltaY);
+  const deflection = radius > 0 ? Math.min(distance / radius, 1) : 0;
+
+  if (deflection === 0 || deflection <= deadZone) {
+    return { x: 0, y: 0, magnitude: 0, angle: 0, direction: null };
+  }
+
+  const magnitude = (deflection - deadZone) / (1 - deadZone);
+  const directionCount = directions || 8;
+  const step = (2 * Math.PI) / directionCount;
+  const rawAngle = Math.atan2(deltaY, deltaX);
+  const directionIndex = (Math.round(rawAngle / step) + directionCount) % directionCount;
+  const angle = directions ? Math.round(rawAngle / step) * step : rawAngle;
+
+  return {
+    x: Math.cos(angle) * magnitude,
+    y: Math.sin(angle) * magnitude,
+    magnitude,
+    angle: angle * (180 / Math.PI),
+    direction: JOYSTICK_DIRECTIONS[directionIndex * (8 / directionCount)]
+  };
+};
+
 /**
  * Normalize touch coordinates to screen percentage
  */
@@ -155,13 +264,19 @@ export const calculateGestureRotation = (startPoints: TouchPoint[], currentPoint
 };
 
 /**
- * Check if gesture is a tap based on movement and duration
+ * Check if gesture is a tap based on movement and duration. `now` is in the
+ * time base of the touch timestamps, such as the latest touch's timestamp.
  */
-export const isTapGesture = (gestureState: GestureState, maxDistance: number = 10, maxDuration: number = 500): boolean => {
+export const isTapGesture = (
+  gestureState: GestureState,
+  maxDistance: number = 10,
+  maxDuration: number = 500,
+  now: number = Date.now()
+): boolean => {
   const distance = Math.sqrt(
     Math.pow(gestureState.deltaX, 2) + Math.pow(gestureState.deltaY, 2)
   );
-  const duration = Date.now() - gestureState.startTime;
+  const duration = now - gestureState.startTime;
 
   return distance < maxDistance && duration < maxDuration;
 };
@@ -181,10 +296,15 @@ export const isSwipeGesture = (gestureState: GestureState, minVelocity: number =
 };
 
 /**
- * Check if gesture is a long press based on duration
+ * Check if gesture is a long press based on duration. `now` is in the time
+ * base of the touch timestamps.
  */
-export const isLongPressGesture = (gestureState: GestureState, minDuration: number = 500): boolean => {
-  const duration = Date.now() - gestureState.startTime;
+export const isLongPressGesture = (
+  gestureState: GestureState,
+  minDuration: number = 500,
+  now: number = Date.now()
+): boolean => {
+  const duration = now - gestureState.startTime;
   return duration > minDuration;
 };
 
@@ -273,10 +393,24 @@ export const supportsHapticFeedback = (platform: string): boolean => {
 };
 
 /**
- * Check if device supports force touch
+ * Check if device supports force touch. Only some iPhones do, so support is
+ * known once a touch reports a maximum possible force or any pressure.
+ */
+export const supportsForceTouch = (
+  platform: string,
+  maximumPossibleForce: number = 0,
+  pressure: number = 0
+): boolean => {
+  return platform === 'ios' && (maximumPossibleForce > 0 || pressure > 0);
+};
+
+/**
+ * Normalise a native touch force to 0-1. iOS reports force in device units,
+ * where 1 is an average touch, so it is scaled by the maximum possible force.
  */
-export const supportsForceTouch = (platform: string): boolean => {
-  return platform === 'ios';
+export const normalizeTouchPressure = (force: number = 0, maximumPossibleForce: number = 0): number => {
+  const pressure = maximumPossibleForce > 0 ? force / maximumPossibleForce : force;
+  return Math.max(0, Math.min(1, pressure || 0));
 };
 
 /**